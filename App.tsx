@@ -1,62 +1,628 @@
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { PromptInput } from './components/PromptInput';
 import { SketchPad } from './components/SketchPad';
-import { generateImage } from './services/geminiService';
+import type { SketchPadHandle } from './components/SketchPad';
+import { SKETCH_COLORS } from './services/sketchColors';
+import type { SketchColor } from './services/sketchColors';
+import { CharacterCard } from './components/CharacterCard';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ResultModal } from './components/ResultModal';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { loadProviderSettings, saveProviderSettings, getProvider } from './services/providerRegistry';
+import type { ProviderSettings } from './services/providerRegistry';
+import { loadApiKey } from './services/apiKeyStore';
+import type { ApiKey } from './services/apiKeyStore';
+import { ProviderError } from './services/imageProvider';
+import type { GenerationProgress, GenerationResult, ProgressListener } from './services/imageProvider';
+import { BUILT_IN_TEMPLATES, getTemplate, loadPromptTemplateSettings, savePromptTemplateSettings } from './services/promptTemplates';
+import type { PromptTemplateSettings } from './services/promptTemplates';
+import { createCharacterSketches, createGenerateParams, getCharacterInputs, getGenerationPrompt, renderGenerationPrompt } from './services/generationCore';
+import { analyzeSketch } from './services/sketchAnalysis';
+import type { SketchWarning } from './services/sketchAnalysis';
+import { renderSketchImage } from './services/sketchLayers';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { runWithConcurrency } from './services/jobQueue';
+import { VariationGrid } from './components/VariationGrid';
+import type { Variation } from './components/VariationGrid';
+import { compositeWithMask } from './services/imageCompositing';
+import { listHistoryEntries, saveHistoryEntry, deleteHistoryEntry } from './services/historyStore';
+import type { HistoryEntry } from './services/historyStore';
+import { formatBytes, getEncodedSize } from './services/imagePreprocessing';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import type { ProjectState } from './services/projectFile';
+import { createVersionTree, addVersion, selectVersion, getVersionPath } from './services/versionTree';
+import type { VersionTree } from './services/versionTree';
+import { getCanvasSize, isAspectRatio } from './services/aspectRatio';
+import { EXPORT_FORMATS, METADATA_FORMAT, METADATA_VERSION, exportImage, hashBlob, readGenerationMetadata } from './services/imageMetadata';
+import type { ExportFormat, GenerationMetadata } from './services/imageMetadata';
 import { LoadingSpinner } from './components/icons';
+import { ErrorNotice } from './components/ErrorNotice';
+import { UsageDialog } from './components/UsageDialog';
+import { checkBudget, createUsageRecord, formatCost, getPeriodStart, loadUsageSettings, saveUsageSettings, summarizeUsage } from './services/usageTracker';
+import type { UsageRecord, UsageSettings } from './services/usageTracker';
+import { clearUsageRecords, listUsageRecords, saveUsageRecord } from './services/usageStore';
 
-export type AspectRatio = '1:1' | '2:3' | '3:2';
+/** Width:height, e.g. '16:9'. */
+export type AspectRatio = `${number}:${number}`;
+
+export interface Character {
+    id: string;
+    name: string;
+    prompt: string;
+    refImages: File[];
+    color: SketchColor;
+}
+
+type GenerationSnapshot = Omit<HistoryEntry, 'id' | 'createdAt' | 'resultImage' | 'modelText' | 'favorite'>;
+
+interface VariationBatch {
+    id: string;
+    snapshot: GenerationSnapshot;
+    variations: Variation[];
+}
+
+const MAX_VARIATIONS = 8;
+
+// Image providers commonly reject inline request bodies around 20 MB.
+const LARGE_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+const isCancellation = (error: unknown) => error instanceof ProviderError && error.code === 'cancelled';
+
+const toDataUrls = ({ images, text }: GenerationResult): GenerationResult => ({
+    images: images.map(image => `data:image/png;base64,${image}`),
+    text,
+});
+
+const createVariation = (update: Partial<Variation> = {}): Variation => ({
+    id: crypto.randomUUID(),
+    status: 'queued',
+    image: null,
+    text: '',
+    error: null,
+    savedToHistory: false,
+    ...update,
+});
+
+const createSnapshotMetadata = async (snapshot: GenerationSnapshot, refinements: string[]): Promise<GenerationMetadata> => ({
+    format: METADATA_FORMAT,
+    version: METADATA_VERSION,
+    exportedAt: new Date().toISOString(),
+    model: snapshot.model,
+    aspectRatio: snapshot.aspectRatio,
+    promptOverall: snapshot.promptOverall,
+    prompt: getGenerationPrompt(snapshot),
+    characters: await Promise.all(snapshot.characters.map(async ({ id, name, prompt, color, refImages }) => ({
+        id,
+        name,
+        prompt,
+        color,
+        refImages: await Promise.all(refImages.map(hashBlob)),
+    }))),
+    background: snapshot.bgImage ? await hashBlob(snapshot.bgImage) : null,
+    sketch: await hashBlob(await (await fetch(snapshot.sketchImage)).blob()),
+    refinements,
+    layers: snapshot.layers,
+});
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const createCharacter = (usedColors: string[]): Character => ({
+    id: crypto.randomUUID(),
+    name: '',
+    prompt: '',
+    refImages: [],
+    color: SKETCH_COLORS.find(color => !usedColors.includes(color.value)) ?? SKETCH_COLORS[0],
+});
 
 const App: React.FC = () => {
-    const [refImage1, setRefImage1] = useState<File | null>(null);
-    const [refImage2, setRefImage2] = useState<File | null>(null);
+    const [characters, setCharacters] = useState<Character[]>(() => {
+        const first = createCharacter([]);
+        return [first, createCharacter([first.color.value])];
+    });
     const [bgImage, setBgImage] = useState<File | null>(null);
 
-    const [prompt1, setPrompt1] = useState('');
-    const [prompt2, setPrompt2] = useState('');
     const [promptOverall, setPromptOverall] = useState('');
 
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('3:2');
-    const sketchPadRef = useRef<{ getCanvasData: () => string | null }>(null);
+    const sketchPadRef = useRef<SketchPadHandle>(null);
     
     const [isLoading, setIsLoading] = useState(false);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    // What a single generation has streamed so far.
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    const [resultTree, setResultTree] = useState<VersionTree | null>(null);
+    // The inputs behind the open result, embedded when it is exported.
+    const [resultSnapshot, setResultSnapshot] = useState<GenerationSnapshot | null>(null);
+    const [error, setError] = useState<Error | string | null>(null);
+
+    const [isRefining, setIsRefining] = useState(false);
+    const [refineProgress, setRefineProgress] = useState<GenerationProgress | null>(null);
+    const [refineError, setRefineError] = useState<Error | string | null>(null);
+
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+    const [variationCount, setVariationCount] = useState(1);
+    const [separateCharacters, setSeparateCharacters] = useState(false);
+    // Set when Generate found problems with the sketch; generating again goes ahead anyway.
+    const [sketchWarnings, setSketchWarnings] = useState<SketchWarning[] | null>(null);
+    const [concurrency, setConcurrency] = useState(2);
+    const [batch, setBatch] = useState<VariationBatch | null>(null);
+    // The in-flight Generate and refinement requests. Replacing or aborting one
+    // makes its eventual result a no-op.
+    const generationRef = useRef<AbortController | null>(null);
+    const refinementRef = useRef<AbortController | null>(null);
+    // Variation retries share the generation's controller; it stays loading until all of them finish.
+    const generationJobsRef = useRef(0);
+
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+    const [apiKey, setApiKey] = useState<ApiKey | null>(loadApiKey);
+
+    const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+    const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+    const [sessionStart] = useState(Date.now);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+    // Read when a request finishes, so editing prices does not recreate the provider.
+    const usageSettingsRef = useRef(usageSettings);
+    usageSettingsRef.current = usageSettings;
+
+    const provider = useMemo(() => getProvider(providerSettings, apiKey?.value, report => {
+        const record = createUsageRecord(report, usageSettingsRef.current);
+        setUsageRecords(prev => [...prev, record]);
+        saveUsageRecord(record).catch(e => console.error('Failed to save usage record:', e));
+    }), [providerSettings, apiKey]);
+    const uploadSize = useMemo(() => getEncodedSize([
+        ...characters.flatMap(character => character.refImages),
+        ...(bgImage ? [bgImage] : []),
+    ]), [characters, bgImage]);
+
+    useEffect(() => {
+        saveProviderSettings(providerSettings);
+    }, [providerSettings]);
+
+    const [templateSettings, setTemplateSettings] = useState<PromptTemplateSettings>(loadPromptTemplateSettings);
+    const promptTemplate = getTemplate([...BUILT_IN_TEMPLATES, ...templateSettings.custom], templateSettings.selectedId);
+
+    useEffect(() => {
+        savePromptTemplateSettings(templateSettings);
+    }, [templateSettings]);
+
+    useEffect(() => {
+        saveUsageSettings(usageSettings);
+    }, [usageSettings]);
+
+    useEffect(() => {
+        listUsageRecords()
+            .then(records => setUsageRecords(prev => [...records, ...prev]))
+            .catch(e => console.error('Failed to load the usage log:', e));
+    }, []);
+
+    useEffect(() => {
+        listHistoryEntries()
+            .then(setHistory)
+            .catch(e => console.error('Failed to load history:', e));
+    }, []);
+
+    const usedColors = characters.map(character => character.color.value);
+    const sketchCharacters = characters.map(({ id, name, color }) => ({ id, name, color: color.value }));
+
+    const handleAddCharacter = () => {
+        setCharacters(prev => [...prev, createCharacter(prev.map(character => character.color.value))]);
+    };
+
+    const handleUpdateCharacter = (id: string, update: (character: Character) => Character) => {
+        setCharacters(prev => prev.map(character => character.id === id ? update(character) : character));
+    };
+
+    const handleRemoveCharacter = (id: string) => {
+        setCharacters(prev => prev.filter(character => character.id !== id));
+    };
 
-    const handleGenerate = useCallback(async () => {
+    const saveToHistory = (snapshot: GenerationSnapshot, resultImage: string, modelText?: string) => {
+        const entry: HistoryEntry = {
+            ...snapshot,
+            id: crypto.randomUUID(),
+            createdAt: Date.now(),
+            resultImage,
+            modelText: modelText || undefined,
+            favorite: false,
+        };
+        setHistory(prev => [entry, ...prev]);
+        saveHistoryEntry(entry).catch(e => console.error('Failed to save history entry:', e));
+    };
+
+    const openResult = (snapshot: GenerationSnapshot, resultImage: string, modelText?: string) => {
+        setRefineError(null);
+        setResultSnapshot(snapshot);
+        setResultTree(createVersionTree(resultImage, getGenerationPrompt(snapshot), modelText || undefined));
+    };
+
+    /**
+     * Checks that `requests` more requests fit the budget. Over budget, asks
+     * first or, when the budget blocks, hands the error to `onBlocked`.
+     */
+    const confirmBudget = (requests: number, onBlocked: (error: ProviderError) => void): boolean => {
+        const problem = checkBudget(usageRecords, usageSettings, sessionStart, provider.model, requests);
+        if (!problem) return true;
+        if (usageSettings.budgetMode === 'block') {
+            onBlocked(new ProviderError('budget', problem));
+            return false;
+        }
+        return window.confirm(`${problem}\n\nContinue anyway?`);
+    };
+
+    const handleClearUsage = () => {
+        clearUsageRecords()
+            .then(() => setUsageRecords([]))
+            .catch(e => console.error('Failed to clear the usage log:', e));
+    };
+
+    /** Returns the images as data URLs; `onProgress` gets what has streamed in so far. */
+    const generateFromSnapshot = async (snapshot: GenerationSnapshot, signal?: AbortSignal, onProgress?: ProgressListener): Promise<GenerationResult> => (
+        toDataUrls(await provider.generate(createGenerateParams(snapshot), signal, onProgress && (partial => onProgress(toDataUrls(partial)))))
+    );
+
+    const updateVariation = (batchId: string, id: string, update: Partial<Variation>) => {
+        // Ignore updates for a batch that was dismissed or replaced.
+        setBatch(prev => prev && prev.id === batchId && {
+            ...prev,
+            variations: prev.variations.map(variation => variation.id === id ? { ...variation, ...update } : variation),
+        });
+    };
+
+    /** Extra images a response brings are added after the variation that produced them. */
+    const addVariations = (batchId: string, afterId: string, added: Variation[]) => {
+        setBatch(prev => {
+            if (!prev || prev.id !== batchId) return prev;
+            const index = prev.variations.findIndex(variation => variation.id === afterId);
+            return { ...prev, variations: [...prev.variations.slice(0, index + 1), ...added, ...prev.variations.slice(index + 1)] };
+        });
+    };
+
+    const runVariations = async ({ id: batchId, snapshot }: VariationBatch, ids: string[], signal?: AbortSignal) => {
+        await runWithConcurrency(
+            ids.map(id => () => generateFromSnapshot(snapshot, signal, ({ text }) => updateVariation(batchId, id, { text }))),
+            concurrency,
+            (index, { status, result, error }) => {
+                const [image, ...extra] = result?.images ?? [];
+                updateVariation(batchId, ids[index], {
+                    status,
+                    image: image ?? null,
+                    ...(result && { text: result.text }),
+                    error: status === 'failed' ? (error instanceof Error ? error : new Error('An unknown error occurred.')) : null,
+                });
+                if (extra.length > 0) {
+                    addVariations(batchId, ids[index], extra.map(image => createVariation({ status: 'done', image, text: result!.text })));
+                }
+            },
+        );
+    };
+
+    /** Joins the generation in flight, or starts one, so Cancel, Dismiss and a new Generate stop this work too. */
+    const joinGeneration = (): AbortController => {
+        let controller = generationRef.current;
+        if (!controller) {
+            controller = new AbortController();
+            generationRef.current = controller;
+            generationJobsRef.current = 0;
+            setIsLoading(true);
+        }
+        generationJobsRef.current += 1;
+        return controller;
+    };
+
+    const leaveGeneration = (controller: AbortController) => {
+        if (generationRef.current !== controller) return;
+        generationJobsRef.current -= 1;
+        if (generationJobsRef.current > 0) return;
+        generationRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+    };
+
+    const handleGenerate = async (ignoreWarnings = false) => {
         const canvasData = sketchPadRef.current?.getCanvasData();
         if (!canvasData) {
             setError('Could not get sketch data.');
             return;
         }
 
-        setIsLoading(true);
+        const layers = sketchPadRef.current?.getLayers() ?? [];
+        const { warnings } = analyzeSketch(layers, aspectRatio, characters);
+        if (warnings.length > 0 && !ignoreWarnings) {
+            setSketchWarnings(warnings);
+            return;
+        }
+        setSketchWarnings(null);
+        if (!confirmBudget(variationCount, setError)) return;
+
+        const snapshot: GenerationSnapshot = {
+            model: provider.model,
+            aspectRatio,
+            characters: characters.map(({ id, name, prompt, color, refImages }) => ({ id, name, prompt, color, refImages })),
+            bgImage,
+            promptOverall,
+            sketchImage: canvasData,
+            layers,
+            relativeLayers: true,
+        };
+        snapshot.prompt = renderGenerationPrompt(snapshot, promptTemplate);
+        if (separateCharacters) {
+            snapshot.characterSketches = createCharacterSketches(snapshot, sketchLayers => renderSketchImage(sketchLayers, getCanvasSize(aspectRatio)));
+        }
+
+        // A new run supersedes any generation still in flight.
+        generationRef.current?.abort();
+        generationRef.current = null;
+        const controller = joinGeneration();
+
         setError(null);
-        setGeneratedImage(null);
+        setProgress(null);
+        setResultTree(null);
 
         try {
-            const result = await generateImage({
-                refImage1,
-                refImage2,
-                bgImage,
-                prompt1,
-                prompt2,
+            if (variationCount === 1) {
+                const { images, text } = await generateFromSnapshot(snapshot, controller.signal, partial => {
+                    if (generationRef.current === controller) setProgress(partial);
+                });
+                if (controller.signal.aborted) return;
+                setProgress(null);
+                if (images.length === 1) {
+                    openResult(snapshot, images[0], text);
+                    saveToHistory(snapshot, images[0], text);
+                } else {
+                    // Several images in one response are shown side by side, like variations,
+                    // and each is saved like a single result.
+                    images.forEach(image => saveToHistory(snapshot, image, text));
+                    setBatch({ id: crypto.randomUUID(), snapshot, variations: images.map(image => createVariation({ status: 'done', image, text, savedToHistory: true })) });
+                }
+            } else {
+                const newBatch: VariationBatch = {
+                    id: crypto.randomUUID(),
+                    snapshot,
+                    variations: Array.from({ length: variationCount }, () => createVariation()),
+                };
+                setBatch(newBatch);
+                await runVariations(newBatch, newBatch.variations.map(variation => variation.id), controller.signal);
+            }
+        } catch (e) {
+            if (generationRef.current !== controller) return;
+            console.error(e);
+            // A user cancellation needs no error message.
+            if (!isCancellation(e)) {
+                setError(e instanceof Error ? e : 'An unknown error occurred.');
+            }
+        } finally {
+            leaveGeneration(controller);
+        }
+    };
+
+    const handleCancelGeneration = () => {
+        generationRef.current?.abort();
+        generationRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+    };
+
+    const handleRetryVariation = async (variation: Variation) => {
+        if (!batch || !confirmBudget(1, setError)) return;
+        const controller = joinGeneration();
+        updateVariation(batch.id, variation.id, { status: 'queued', text: '', error: null });
+        try {
+            await runVariations(batch, [variation.id], controller.signal);
+        } finally {
+            leaveGeneration(controller);
+        }
+    };
+
+    const handleSaveVariation = (variation: Variation) => {
+        if (!batch || !variation.image) return;
+        saveToHistory(batch.snapshot, variation.image, variation.text);
+        updateVariation(batch.id, variation.id, { savedToHistory: true });
+    };
+
+    const handleViewHistory = (entry: HistoryEntry) => {
+        openResult(entry, entry.resultImage, entry.modelText);
+    };
+
+    /** Runs a refinement or region edit and adds each image it returns as a child of `parentId`. */
+    const runRefinement = async (parentId: string, label: string, request: (signal: AbortSignal, onProgress: ProgressListener) => Promise<GenerationResult>) => {
+        refinementRef.current?.abort();
+        const controller = new AbortController();
+        refinementRef.current = controller;
+
+        setIsRefining(true);
+        setRefineError(null);
+        setRefineProgress(null);
+        try {
+            const { images, text } = await request(controller.signal, partial => {
+                if (refinementRef.current === controller) setRefineProgress(partial);
+            });
+            if (controller.signal.aborted) return;
+            // The modal may have been closed or switched to another result meanwhile.
+            setResultTree(prev => prev?.nodes[parentId]
+                ? images.reduce((tree, image) => addVersion(tree, parentId, image, label, text || undefined), prev)
+                : prev);
+        } catch (e) {
+            if (refinementRef.current !== controller) return;
+            console.error(e);
+            if (!isCancellation(e)) {
+                setRefineError(e instanceof Error ? e : 'An unknown error occurred.');
+            }
+        } finally {
+            if (refinementRef.current === controller) {
+                refinementRef.current = null;
+                setIsRefining(false);
+                setRefineProgress(null);
+            }
+        }
+    };
+
+    const handleRefine = (instruction: string) => {
+        if (!resultTree || !confirmBudget(1, setRefineError)) return;
+        const parentId = resultTree.currentId;
+        const [root, ...turns] = getVersionPath(resultTree, parentId);
+        runRefinement(parentId, instruction, async (signal, onProgress) => toDataUrls(await provider.refine({
+            rootPrompt: resultTree.rootPrompt,
+            rootImage: root.image,
+            turns: turns.map(node => ({ instruction: node.instruction ?? '', image: node.image })),
+            instruction,
+        }, signal, onProgress)));
+    };
+
+    const handleInpaint = (mask: string, instruction: string) => {
+        if (!resultTree || !confirmBudget(1, setRefineError)) return;
+        const parentId = resultTree.currentId;
+        const original = resultTree.nodes[parentId].image;
+        runRefinement(parentId, `Region: ${instruction}`, async (signal, onProgress) => {
+            const { images, text } = toDataUrls(await provider.inpaint({ image: original, mask, instruction }, signal, onProgress));
+            return { images: await Promise.all(images.map(image => compositeWithMask(original, image, mask))), text };
+        });
+    };
+
+    const handleCancelRefinement = () => {
+        refinementRef.current?.abort();
+        refinementRef.current = null;
+        setIsRefining(false);
+        setRefineProgress(null);
+    };
+
+    const restoreInputs = (state: ProjectState) => {
+        setCharacters(state.characters.map(character => ({ ...character, id: character.id ?? crypto.randomUUID() })));
+        setBgImage(state.bgImage);
+        setPromptOverall(state.promptOverall);
+        setAspectRatio(state.aspectRatio);
+        sketchPadRef.current?.setLayers(state.layers, state.aspectRatio);
+    };
+
+    const handleRestoreHistory = (entry: HistoryEntry) => {
+        restoreInputs({ ...entry, layers: entry.layers ?? [] });
+        setResultTree(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const handleSaveProject = async () => {
+        try {
+            const json = await serializeProject({
+                aspectRatio,
                 promptOverall,
-                sketchImage: canvasData,
+                bgImage,
+                characters,
+                layers: sketchPadRef.current?.getLayers() ?? [],
             });
-            if (result) {
-                setGeneratedImage(`data:image/png;base64,${result}`);
+            downloadBlob(new Blob([json], { type: 'application/json' }), `pose-painter-${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`);
+        } catch (e) {
+            console.error(e);
+            setError('Failed to save project.');
+        }
+    };
+
+    const handleExportResult = async (format: ExportFormat, quality: number) => {
+        if (!resultTree || !resultSnapshot) return;
+        const [, ...refinements] = getVersionPath(resultTree, resultTree.currentId);
+        const metadata = await createSnapshotMetadata(resultSnapshot, refinements.map(node => node.instruction ?? ''));
+        const blob = await exportImage(resultTree.nodes[resultTree.currentId].image, format, quality, metadata);
+        const { extension } = EXPORT_FORMATS.find(item => item.id === format)!;
+        downloadBlob(blob, `pose-painter-${new Date().toISOString().slice(0, 10)}.${extension}`);
+    };
+
+    /**
+     * Restores the inputs recorded in an exported image. Reference and
+     * background images are not embedded; ones already loaded are kept when
+     * their hashes match.
+     */
+    const importImageSettings = async (file: File) => {
+        const metadata = await readGenerationMetadata(file);
+        if (!metadata) {
+            throw new Error('This image has no Pose Painter generation settings.');
+        }
+        if (!isAspectRatio(metadata.aspectRatio) || !Array.isArray(metadata.characters)) {
+            throw new Error('The generation settings in this image are incomplete.');
+        }
+
+        const loaded = [...characters.flatMap(character => character.refImages), ...(bgImage ? [bgImage] : [])];
+        const byHash = new Map(await Promise.all(loaded.map(async image => [await hashBlob(image), image] as const)));
+        const findImages = (hashes: string[]) => hashes.flatMap(hash => byHash.get(hash) ?? []);
+        const wanted = metadata.characters.flatMap(character => character.refImages).length + (metadata.background ? 1 : 0);
+
+        const restored: ProjectState = {
+            aspectRatio: metadata.aspectRatio,
+            promptOverall: metadata.promptOverall ?? '',
+            bgImage: metadata.background ? byHash.get(metadata.background) ?? null : null,
+            characters: metadata.characters.map(({ id, name, prompt, color, refImages }) => ({ id, name, prompt, color, refImages: findImages(refImages ?? []) })),
+            layers: metadata.layers ?? [],
+        };
+        restoreInputs(restored);
+
+        const found = restored.characters.flatMap(character => character.refImages).length + (restored.bgImage ? 1 : 0);
+        const notes = [
+            wanted > found && `${wanted - found} of ${wanted} input images are not loaded; add them again to reproduce the result exactly.`,
+            !metadata.layers && 'The sketch was not embedded in this image.',
+            metadata.refinements?.length > 0 && `The result was refined afterwards: ${metadata.refinements.join(' → ')}`,
+        ].filter(Boolean);
+        if (notes.length > 0) alert(`Settings restored.\n\n${notes.join('\n')}`);
+    };
+
+    /** Opens a project file, or the settings embedded in an exported image. */
+    const openFile = async (file: File) => {
+        try {
+            if (file.type.startsWith('image/')) {
+                await importImageSettings(file);
             } else {
-                setError('Failed to generate image. The model did not return an image.');
+                restoreInputs(parseProject(await file.text()));
             }
+            setError(null);
         } catch (e) {
             console.error(e);
-            setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            setError(e instanceof Error ? e : 'Failed to open file.');
         }
-    }, [refImage1, refImage2, bgImage, prompt1, prompt2, promptOverall]);
+    };
+
+    const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) openFile(file);
+    };
+
+    // Files dropped anywhere outside an upload area open like "Open".
+    const openFileRef = useRef(openFile);
+    openFileRef.current = openFile;
+    useEffect(() => {
+        const onDragOver = (e: DragEvent) => {
+            if (e.dataTransfer?.types.includes('Files')) e.preventDefault();
+        };
+        const onDrop = (e: DragEvent) => {
+            const file = e.dataTransfer?.files[0];
+            if (!file) return;
+            e.preventDefault();
+            openFileRef.current(file);
+        };
+        window.addEventListener('dragover', onDragOver);
+        window.addEventListener('drop', onDrop);
+        return () => {
+            window.removeEventListener('dragover', onDragOver);
+            window.removeEventListener('drop', onDrop);
+        };
+    }, []);
+
+    const handleToggleFavorite = (entry: HistoryEntry) => {
+        const updated = { ...entry, favorite: !entry.favorite };
+        setHistory(prev => prev.map(item => item.id === entry.id ? updated : item));
+        saveHistoryEntry(updated).catch(e => console.error('Failed to update history entry:', e));
+    };
+
+    const handleDeleteHistory = (entry: HistoryEntry) => {
+        if (!window.confirm('Delete this image from history?')) return;
+        setHistory(prev => prev.filter(item => item.id !== entry.id));
+        deleteHistoryEntry(entry.id).catch(e => console.error('Failed to delete history entry:', e));
+    };
     
     return (
         <div className="min-h-screen bg-[#0D1117] text-gray-200 font-sans p-4 sm:p-6 lg:p-8">
@@ -68,19 +634,44 @@ const App: React.FC = () => {
                     <p className="text-gray-400 mt-2 text-lg">
                         Sketch poses, add references, and bring your vision to life.
                     </p>
+                    <div className="flex justify-center gap-2 mt-4">
+                        <button onClick={handleSaveProject} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Save Project</button>
+                        <label className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors cursor-pointer">
+                            Open Project or Image
+                            <input type="file" className="hidden" accept={`${PROJECT_FILE_EXTENSION},application/json,image/png,image/jpeg,image/webp`} onChange={handleOpenProject} />
+                        </label>
+                        <button onClick={() => setIsUsageOpen(true)} title="Requests, tokens and estimated cost; budget and CSV export" className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                            Usage: {formatCost(summarizeUsage(usageRecords, getPeriodStart('day', sessionStart)).cost)} today
+                        </button>
+                    </div>
+                    <div className="mt-3">
+                        <ProviderSettingsPanel settings={providerSettings} apiKey={apiKey} onChange={setProviderSettings} onApiKeyChange={setApiKey} />
+                    </div>
                 </header>
 
                 <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                     <div className="lg:col-span-2 flex flex-col gap-8">
-                        {/* Section 1: Upload Images */}
+                        {/* Section 1: Characters */}
                         <div className="bg-[#161B22] p-6 rounded-lg border border-gray-700">
-                            <h2 className="text-xl font-semibold mb-4 text-blue-400 border-b border-gray-700 pb-2">1. Upload Images</h2>
+                            <h2 className="text-xl font-semibold mb-4 text-blue-400 border-b border-gray-700 pb-2">1. Characters</h2>
                             <div className="flex flex-col gap-4">
-                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                    <ImageUploader label="Reference Image 1 (Red Pose)" borderColor="border-red-500/50" onFileChange={setRefImage1} />
-                                    <ImageUploader label="Reference Image 2 (Blue Pose)" borderColor="border-blue-500/50" onFileChange={setRefImage2} />
-                                </div>
-                                <ImageUploader label="Background Image (Optional)" onFileChange={setBgImage} />
+                                {characters.map((character, index) => (
+                                    <CharacterCard
+                                        key={character.id}
+                                        character={character}
+                                        index={index}
+                                        usedColors={usedColors}
+                                        onChange={(update) => handleUpdateCharacter(character.id, update)}
+                                        onRemove={() => handleRemoveCharacter(character.id)}
+                                    />
+                                ))}
+                                <button
+                                    onClick={handleAddCharacter}
+                                    disabled={characters.length >= SKETCH_COLORS.length}
+                                    className="py-2 px-4 text-sm font-medium rounded-md border border-dashed border-gray-600 text-gray-300 hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    + Add Character
+                                </button>
                             </div>
                         </div>
 
@@ -88,9 +679,18 @@ const App: React.FC = () => {
                         <div className="bg-[#161B22] p-6 rounded-lg border border-gray-700">
                              <h2 className="text-xl font-semibold mb-4 text-blue-400 border-b border-gray-700 pb-2">2. Describe Your Scene</h2>
                              <div className="flex flex-col gap-4">
-                                <PromptInput label="Prompt for Reference Image 1 (Red Pose)" placeholder="e.g., A fantasy hero with silver armor..." value={prompt1} onChange={setPrompt1} />
-                                <PromptInput label="Prompt for Reference Image 2 (Blue Pose)" placeholder="e.g., A powerful sorceress in dark robes..." value={prompt2} onChange={setPrompt2} />
+                                <ImageUploader label="Background Image (Optional)" file={bgImage} onFileChange={setBgImage} />
                                 <PromptInput label="Prompt for Overall Composition" placeholder="e.g., Standing back-to-back in a dark forest..." value={promptOverall} onChange={setPromptOverall} />
+                                <PromptTemplatePanel
+                                    settings={templateSettings}
+                                    onChange={setTemplateSettings}
+                                    getContext={() => ({
+                                        characters: getCharacterInputs({ aspectRatio, characters, layers: sketchPadRef.current?.getLayers() ?? [] }),
+                                        promptOverall,
+                                        hasBackground: !!bgImage,
+                                        aspectRatio,
+                                    })}
+                                />
                              </div>
                         </div>
                     </div>
@@ -98,30 +698,126 @@ const App: React.FC = () => {
                     <div className="lg:col-span-3">
                          {/* Section 3: Sketch Poses */}
                         <div className="bg-[#161B22] p-6 rounded-lg border border-gray-700 h-full">
-                            <SketchPad ref={sketchPadRef} aspectRatio={aspectRatio} setAspectRatio={setAspectRatio} />
+                            <SketchPad ref={sketchPadRef} aspectRatio={aspectRatio} setAspectRatio={setAspectRatio} characters={sketchCharacters} bgImage={bgImage} />
                         </div>
                     </div>
                 </main>
 
                 <footer className="text-center mt-8">
-                    <button
-                        onClick={handleGenerate}
-                        disabled={isLoading}
-                        className="w-full max-w-md py-3 px-6 text-lg font-bold text-white rounded-lg bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-[#0D1117] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center mx-auto"
-                    >
-                        {isLoading ? <><LoadingSpinner /> Generating...</> : 'Generate Image'}
-                    </button>
-                    {error && <p className="text-red-400 mt-4">{error}</p>}
+                    <div className="flex flex-wrap items-center justify-center gap-6 mb-4 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                            Variations: {variationCount}
+                            <input type="range" min="1" max={MAX_VARIATIONS} value={variationCount} onChange={(e) => setVariationCount(parseInt(e.target.value))} className="w-32 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                        </label>
+                        {variationCount > 1 && (
+                            <label className="flex items-center gap-2">
+                                Parallel requests: {concurrency}
+                                <input type="range" min="1" max="4" value={concurrency} onChange={(e) => setConcurrency(parseInt(e.target.value))} className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                        )}
+                        <label className="flex items-center gap-2" title="Also send each character's strokes as a separate image with where they are in the frame, so overlapping figures are not confused">
+                            <input type="checkbox" checked={separateCharacters} onChange={(e) => setSeparateCharacters(e.target.checked)} />
+                            Send poses separately
+                        </label>
+                        <span
+                            title="Size of the reference and background images once encoded into each request, not counting the sketch"
+                            className={uploadSize > LARGE_UPLOAD_BYTES ? 'text-amber-400' : 'text-gray-400'}
+                        >
+                            Images per request: {formatBytes(uploadSize)}
+                            {uploadSize > LARGE_UPLOAD_BYTES && ' (may be too large; crop or remove some images)'}
+                        </span>
+                    </div>
+                    <div className="flex items-center justify-center gap-3">
+                        <button
+                            onClick={() => handleGenerate()}
+                            title={isLoading ? 'Stop the current run and start again with the current inputs' : undefined}
+                            className="w-full max-w-md py-3 px-6 text-lg font-bold text-white rounded-lg bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 focus:ring-offset-[#0D1117] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                        >
+                            {isLoading ? <><LoadingSpinner /> Generating... (click to restart)</> : variationCount > 1 ? `Generate ${variationCount} Variations` : 'Generate Image'}
+                        </button>
+                        {isLoading && (
+                            <button
+                                onClick={handleCancelGeneration}
+                                className="py-3 px-6 text-lg font-bold text-gray-200 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                    {isLoading && progress && (
+                        <div className="mt-4 max-w-xl mx-auto text-sm text-left bg-[#161B22] border border-gray-700 rounded-md p-3">
+                            {progress.images.length > 0 && (
+                                <p className="text-gray-400 mb-1">{progress.images.length} {progress.images.length === 1 ? 'image' : 'images'} received so far...</p>
+                            )}
+                            {progress.text && <p className="text-gray-300 italic whitespace-pre-wrap">{progress.text}</p>}
+                        </div>
+                    )}
+                    {sketchWarnings && (
+                        <div className="mt-4 max-w-xl mx-auto text-sm text-left bg-amber-900/20 border border-amber-700 rounded-md p-3">
+                            <p className="font-semibold text-amber-400">Check the sketch before generating:</p>
+                            <ul className="list-disc list-inside text-gray-300 mt-1">
+                                {sketchWarnings.map((warning, index) => <li key={index}>{warning.message}</li>)}
+                            </ul>
+                            <div className="flex justify-end gap-2 mt-2">
+                                <button onClick={() => setSketchWarnings(null)} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Back to the sketch</button>
+                                <button onClick={() => handleGenerate(true)} className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white rounded-md transition-colors">Generate anyway</button>
+                            </div>
+                        </div>
+                    )}
+                    {error && <ErrorNotice error={error} className="mt-4 max-w-xl mx-auto" />}
                 </footer>
+
+                {batch && (
+                    <section className="mt-10">
+                        <VariationGrid
+                            variations={batch.variations}
+                            onOpen={(variation) => variation.image && openResult(batch.snapshot, variation.image)}
+                            onSaveToHistory={handleSaveVariation}
+                            onRetry={handleRetryVariation}
+                            onDismiss={() => {
+                                if (isLoading) handleCancelGeneration();
+                                setBatch(null);
+                            }}
+                        />
+                    </section>
+                )}
+
+                <section className="mt-10">
+                    <HistoryPanel
+                        entries={history}
+                        onView={handleViewHistory}
+                        onRestore={handleRestoreHistory}
+                        onToggleFavorite={handleToggleFavorite}
+                        onDelete={handleDeleteHistory}
+                    />
+                </section>
             </div>
             
-            {generatedImage && (
-                <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={() => setGeneratedImage(null)}>
-                    <div className="bg-[#161B22] p-4 rounded-lg border border-gray-700 max-w-4xl max-h-[90vh] " onClick={(e) => e.stopPropagation()}>
-                        <img src={generatedImage} alt="Generated result" className="max-w-full max-h-[85vh] object-contain rounded-md" />
-                         <button onClick={() => setGeneratedImage(null)} className="absolute top-4 right-4 text-white bg-red-600 rounded-full w-8 h-8 flex items-center justify-center font-bold text-xl">&times;</button>
-                    </div>
-                </div>
+            {isUsageOpen && (
+                <UsageDialog
+                    records={usageRecords}
+                    settings={usageSettings}
+                    sessionStart={sessionStart}
+                    onSettingsChange={setUsageSettings}
+                    onClear={handleClearUsage}
+                    onClose={() => setIsUsageOpen(false)}
+                />
+            )}
+
+            {resultTree && (
+                <ResultModal
+                    tree={resultTree}
+                    capabilities={provider.capabilities}
+                    isRefining={isRefining}
+                    refineProgress={refineProgress}
+                    refineError={refineError}
+                    onSelectVersion={(id) => setResultTree(prev => prev && selectVersion(prev, id))}
+                    onRefine={handleRefine}
+                    onInpaint={handleInpaint}
+                    onCancelRefine={handleCancelRefinement}
+                    onExport={resultSnapshot ? handleExportResult : undefined}
+                    onClose={() => { handleCancelRefinement(); setResultTree(null); setRefineError(null); }}
+                />
             )}
         </div>
     );
@@ -0,0 +1,97 @@
+import { appendFileSync, existsSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createGeminiProvider } from "../services/geminiService";
+import { withTimeout } from "../services/cancellation";
+import { DEFAULT_RETRY_OPTIONS, withRetries } from "../services/retry";
+import { DEFAULT_USAGE_SETTINGS, createUsageRecord, formatCost, summarizeUsage, toUsageCsv } from "../services/usageTracker";
+import type { UsageRecord } from "../services/usageTracker";
+import { loadManifest } from "./manifest";
+import { REPORT_FILE, runBatch } from "./runner";
+
+const USAGE_FILE = 'usage.csv';
+
+const USAGE = `Usage: npm run batch -- <manifest.yaml|manifest.json> [options]
+
+Options:
+  --output <dir>       Write results here instead of the manifest's "output"
+  --concurrency <n>    Parallel requests (default from the manifest, else 2)
+  --force              Regenerate images that already succeeded
+  --dry-run            Render sketches and prompts without calling the API
+  --help               Show this message
+
+Rerun the same command to resume: finished images are skipped and failed
+ones are retried. Results and ${REPORT_FILE} go to the output directory.`;
+
+const main = async (): Promise<number> => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            output: { type: 'string' },
+            concurrency: { type: 'string' },
+            force: { type: 'boolean', default: false },
+            'dry-run': { type: 'boolean', default: false },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        return values.help ? 0 : 1;
+    }
+
+    // npm runs scripts from the package root; paths on the command line are relative to where it was called.
+    const workingDir = process.env.INIT_CWD ?? process.cwd();
+    const manifest = await loadManifest(path.resolve(workingDir, positionals[0]));
+    if (values.output) manifest.settings.output = path.resolve(workingDir, values.output);
+    if (values.concurrency) {
+        const concurrency = parseInt(values.concurrency, 10);
+        if (!(concurrency >= 1)) throw new Error('--concurrency must be a number of at least 1.');
+        manifest.settings.concurrency = concurrency;
+    }
+
+    // The same key the app is built with.
+    if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!values['dry-run'] && !apiKey) {
+        throw new Error('Set GEMINI_API_KEY in .env.local or the environment.');
+    }
+
+    const { timeoutSeconds, retries } = manifest.settings;
+    const usage: UsageRecord[] = [];
+    const gemini = createGeminiProvider({ type: 'key', apiKey }, report => usage.push(createUsageRecord(report, DEFAULT_USAGE_SETTINGS)));
+    const provider = withRetries(withTimeout(gemini, timeoutSeconds * 1000), { ...DEFAULT_RETRY_OPTIONS, retries });
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.log('Stopping. Rerun the same command to resume.');
+        controller.abort();
+    });
+
+    const report = await runBatch(manifest, provider, {
+        force: values.force,
+        dryRun: values['dry-run'],
+        signal: controller.signal,
+        log: message => console.log(message),
+    });
+    if (values['dry-run']) return 0;
+
+    // Every run adds its requests, so the file covers all resumes.
+    if (usage.length > 0) {
+        const usageFile = path.join(manifest.settings.output, USAGE_FILE);
+        appendFileSync(usageFile, toUsageCsv(usage, !existsSync(usageFile)));
+        console.log(`${usage.length} requests, estimated cost ${formatCost(summarizeUsage(usage).cost)}. Logged to ${usageFile}`);
+    }
+
+    const { done, failed, queued } = report.summary;
+    console.log(`Done: ${done}, failed: ${failed}, not run: ${queued}. See ${path.join(manifest.settings.output, REPORT_FILE)}`);
+    if (controller.signal.aborted) return 130;
+    return failed > 0 ? 1 : 0;
+};
+
+main().then(
+    code => { process.exitCode = code; },
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    },
+);
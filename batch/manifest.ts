@@ -0,0 +1,212 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { AspectRatio } from "../App";
+import { isAspectRatio } from "../services/aspectRatio";
+import type { RatioFit } from "../services/aspectRatio";
+import { BUILT_IN_TEMPLATES, importTemplates } from "../services/promptTemplates";
+import type { PromptTemplate } from "../services/promptTemplates";
+
+/**
+ * A batch manifest lists generation jobs in JSON or YAML. Settings under
+ * `defaults` apply to every job that does not set them itself, and every
+ * path is relative to the manifest.
+ */
+export interface ManifestCharacter {
+    name?: string;
+    prompt?: string;
+    /** A sketch color name ("red") or value ("#EF4444"). Defaults to the next unused color. */
+    color?: string;
+    references?: string[];
+}
+
+export interface ManifestJob {
+    /** Names the output files; defaults to "job-<n>". */
+    id?: string;
+    /** A PNG, JPEG or WebP sketch, a project file or OpenPose JSON. */
+    sketch?: string;
+    /** Required for JPEG and WebP sketches; otherwise taken from the sketch. */
+    aspectRatio?: string;
+    /** One scene prompt, or several to run against the same sketch. */
+    prompt?: string | string[];
+    variations?: number;
+    background?: string;
+    characters?: ManifestCharacter[];
+    /** The id or name of a built-in template, or of one in `templateFile`. */
+    template?: string;
+    /** Also send each character's pose as its own image. Needs a project or OpenPose sketch. */
+    separateCharacters?: boolean;
+}
+
+export interface BatchSettings {
+    /** Where results and the report are written. */
+    output: string;
+    concurrency: number;
+    /** Per-request time limit; 0 disables it. */
+    timeoutSeconds: number;
+    /** Attempts after the first one for transient errors. */
+    retries: number;
+    /** How results that miss the aspect ratio are corrected, as in the app. */
+    ratioFit: RatioFit;
+}
+
+export interface BatchJob {
+    id: string;
+    sketch: string;
+    aspectRatio: AspectRatio | null;
+    /** Null when the sketch (a project file) should supply the prompt. */
+    prompts: string[] | null;
+    variations: number;
+    background: string | null;
+    characters: (Omit<ManifestCharacter, 'references'> & { references: string[] })[] | null;
+    template: PromptTemplate;
+    separateCharacters: boolean;
+}
+
+export interface Manifest {
+    settings: BatchSettings;
+    jobs: BatchJob[];
+}
+
+export const DEFAULT_BATCH_SETTINGS: Omit<BatchSettings, 'output'> = {
+    concurrency: 2,
+    timeoutSeconds: 120,
+    retries: 3,
+    ratioFit: 'crop',
+};
+
+const JOB_ID_PATTERN = /^[\w.-]+$/;
+
+const isObject = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, where: string): string | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') throw new Error(`${where} must be a string.`);
+    return value;
+};
+
+const expectCount = (value: unknown, where: string, min: number): number | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) throw new Error(`${where} must be a whole number of at least ${min}.`);
+    return value;
+};
+
+const expectBoolean = (value: unknown, where: string): boolean | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'boolean') throw new Error(`${where} must be true or false.`);
+    return value;
+};
+
+const expectAspectRatio = (value: unknown, where: string): AspectRatio | null => {
+    const ratio = expectString(value, where);
+    if (ratio === undefined) return null;
+    if (!isAspectRatio(ratio)) throw new Error(`${where} must look like "16:9".`);
+    return ratio;
+};
+
+const expectRatioFit = (value: unknown, where: string): RatioFit | undefined => {
+    const fit = expectString(value, where);
+    if (fit === undefined) return undefined;
+    if (fit === 'crop' || fit === 'pad') return fit;
+    throw new Error(`${where} must be "crop" or "pad".`);
+};
+
+const expectList = (value: unknown, where: string): unknown[] | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) throw new Error(`${where} must be a list.`);
+    return value;
+};
+
+const readCharacter = (value: unknown, where: string, resolve: (file: string) => string) => {
+    if (!isObject(value)) throw new Error(`${where} must be an object.`);
+    return {
+        name: expectString(value.name, `${where}.name`),
+        prompt: expectString(value.prompt, `${where}.prompt`),
+        color: expectString(value.color, `${where}.color`),
+        references: (expectList(value.references, `${where}.references`) ?? []).map((file, i) => {
+            const reference = expectString(file, `${where}.references[${i}]`);
+            if (!reference) throw new Error(`${where}.references[${i}] must be a file path.`);
+            return resolve(reference);
+        }),
+    };
+};
+
+const findTemplate = (templates: PromptTemplate[], key: string, where: string): PromptTemplate => {
+    const match = templates.find(template => template.id === key || template.name.toLowerCase() === key.toLowerCase());
+    if (!match) throw new Error(`${where}: unknown template "${key}". Available: ${templates.map(template => template.name).join(', ')}.`);
+    return match;
+};
+
+/** Reads and validates a manifest, resolving paths, defaults and templates. */
+export const loadManifest = async (manifestPath: string): Promise<Manifest> => {
+    const text = await readFile(manifestPath, 'utf8');
+    let raw: unknown;
+    try {
+        raw = path.extname(manifestPath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+        throw new Error(`The manifest could not be parsed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!isObject(raw)) throw new Error('The manifest must be an object with a "jobs" list.');
+
+    const baseDir = path.dirname(path.resolve(manifestPath));
+    const resolve = (file: string) => path.resolve(baseDir, file);
+
+    // Templates from a file come after the built-in ones, so their names can be used too.
+    const templateFile = expectString(raw.templateFile, 'templateFile');
+    const templates = templateFile
+        ? [...BUILT_IN_TEMPLATES, ...importTemplates(await readFile(resolve(templateFile), 'utf8'))]
+        : BUILT_IN_TEMPLATES;
+
+    const defaults = raw.defaults ?? {};
+    if (!isObject(defaults)) throw new Error('defaults must be an object.');
+    const jobs = expectList(raw.jobs, 'jobs');
+    if (!jobs || jobs.length === 0) throw new Error('The manifest has no jobs.');
+
+    const ids = new Set<string>();
+    const batchJobs = jobs.map((value, index): BatchJob => {
+        const where = `jobs[${index}]`;
+        if (!isObject(value)) throw new Error(`${where} must be an object.`);
+        const job = { ...defaults, ...value };
+
+        const id = expectString(job.id, `${where}.id`) ?? `job-${index + 1}`;
+        if (!JOB_ID_PATTERN.test(id)) throw new Error(`${where}.id may only contain letters, digits, ".", "_" and "-".`);
+        if (ids.has(id)) throw new Error(`${where}.id "${id}" is used twice.`);
+        ids.add(id);
+
+        const sketch = expectString(job.sketch, `${where}.sketch`);
+        if (!sketch) throw new Error(`${where} needs a sketch.`);
+
+        const prompts = typeof job.prompt === 'string'
+            ? [job.prompt]
+            : expectList(job.prompt, `${where}.prompt`)?.map((prompt, i) => expectString(prompt, `${where}.prompt[${i}]`) ?? '') ?? null;
+        if (prompts?.length === 0) throw new Error(`${where}.prompt must not be an empty list.`);
+
+        const background = expectString(job.background, `${where}.background`);
+        const characters = expectList(job.characters, `${where}.characters`)?.map((character, i) => readCharacter(character, `${where}.characters[${i}]`, resolve)) ?? null;
+        const template = expectString(job.template, `${where}.template`) ?? expectString(raw.template, 'template');
+
+        return {
+            id,
+            sketch: resolve(sketch),
+            aspectRatio: expectAspectRatio(job.aspectRatio, `${where}.aspectRatio`),
+            prompts,
+            variations: expectCount(job.variations, `${where}.variations`, 1) ?? 1,
+            background: background ? resolve(background) : null,
+            characters,
+            template: template ? findTemplate(templates, template, where) : BUILT_IN_TEMPLATES[0],
+            separateCharacters: expectBoolean(job.separateCharacters, `${where}.separateCharacters`) ?? false,
+        };
+    });
+
+    const output = expectString(raw.output, 'output');
+    return {
+        settings: {
+            output: output ? resolve(output) : resolve(`${path.basename(manifestPath).replace(/\.[^.]+$/, '')}-output`),
+            concurrency: expectCount(raw.concurrency, 'concurrency', 1) ?? DEFAULT_BATCH_SETTINGS.concurrency,
+            timeoutSeconds: expectCount(raw.timeoutSeconds, 'timeoutSeconds', 0) ?? DEFAULT_BATCH_SETTINGS.timeoutSeconds,
+            retries: expectCount(raw.retries, 'retries', 0) ?? DEFAULT_BATCH_SETTINGS.retries,
+            ratioFit: expectRatioFit(raw.ratioFit, 'ratioFit') ?? DEFAULT_BATCH_SETTINGS.ratioFit,
+        },
+        jobs: batchJobs,
+    };
+};
@@ -0,0 +1,137 @@
+import { deflateSync, inflateSync } from "node:zlib";
+import type { AspectRatio } from "../App";
+import { getFittedSize } from "../services/aspectRatio";
+import type { RatioFit } from "../services/aspectRatio";
+import { createPngChunk } from "../services/imageMetadata";
+import type { RasterImage } from "../services/sketchRaster";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+/** Encodes an RGBA image as an 8-bit PNG without filtering. */
+export const encodePng = ({ width, height, data }: RasterImage): Buffer => {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header.set([8, 6, 0, 0, 0], 8); // bit depth, RGBA, deflate, no filter, no interlace
+
+    // Every row starts with its filter type, 0 (none).
+    const rowLength = width * 4;
+    const raw = new Uint8Array((rowLength + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+    }
+
+    return Buffer.concat([
+        Uint8Array.from(PNG_SIGNATURE),
+        createPngChunk('IHDR', header),
+        createPngChunk('IDAT', deflateSync(raw)),
+        createPngChunk('IEND', new Uint8Array()),
+    ]);
+};
+
+/** Width and height from a PNG header, or null for other formats. */
+export const readPngSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+    if (bytes.length < 24 || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+// Channels per pixel of the 8-bit color types: gray, RGB, gray + alpha, RGBA.
+const CHANNELS: { [colorType: number]: number } = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/** Decodes an 8-bit, non-interlaced gray or RGB PNG with or without alpha; null for anything else. */
+export const decodePng = (bytes: Uint8Array): RasterImage | null => {
+    const size = readPngSize(bytes);
+    if (!size) return null;
+    const { width, height } = size;
+    const channels = CHANNELS[bytes[25]];
+    if (bytes[24] !== 8 || !channels || bytes[28] !== 0) return null;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const compressed: Uint8Array[] = [];
+    for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (type === 'IEND') break;
+        if (type === 'IDAT') compressed.push(bytes.subarray(offset + 8, offset + 8 + length));
+        offset += length + 12;
+    }
+    let raw: Uint8Array;
+    try {
+        raw = inflateSync(Buffer.concat(compressed));
+    } catch {
+        return null;
+    }
+
+    // Undo the per-row filters, then expand to RGBA.
+    const stride = width * channels;
+    if (raw.length < (stride + 1) * height) return null;
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const row = y * stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= channels ? pixels[row + x - channels] : 0;
+            const up = y > 0 ? pixels[row - stride + x] : 0;
+            const upLeft = y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+            const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+            if (predictor === undefined) return null;
+            pixels[row + x] = (line[x] + predictor) & 0xFF;
+        }
+    }
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const pixel = pixels.subarray(i * channels, (i + 1) * channels);
+        const [r, g, b] = channels >= 3 ? pixel : [pixel[0], pixel[0], pixel[0]];
+        data.set([r, g, b, channels % 2 === 0 ? pixel[channels - 1] : 0xFF], i * 4);
+    }
+    return { width, height, data };
+};
+
+/**
+ * Brings a PNG to exactly `ratio` like the app does: center-cropped, or
+ * padded with black bars. Images already within tolerance are returned
+ * unchanged; null when the PNG could not be decoded.
+ */
+export const fitPngToAspectRatio = (bytes: Uint8Array, ratio: AspectRatio, fit: RatioFit): Uint8Array | null => {
+    const image = decodePng(bytes);
+    if (!image) return null;
+    const size = getFittedSize(image.width, image.height, ratio, fit);
+    if (!size) return bytes;
+
+    const data = new Uint8ClampedArray(size.width * size.height * 4);
+    for (let i = 3; i < data.length; i += 4) data[i] = 0xFF;
+    const left = Math.round((size.width - image.width) / 2);
+    const top = Math.round((size.height - image.height) / 2);
+    const fromX = Math.max(0, -left);
+    const toX = Math.min(image.width, size.width - left);
+    for (let y = Math.max(0, -top); y < Math.min(image.height, size.height - top); y++) {
+        const source = image.data.subarray((y * image.width + fromX) * 4, (y * image.width + toX) * 4);
+        data.set(source, ((y + top) * size.width + fromX + left) * 4);
+    }
+    // Transparent pixels end up over the black background, as on the canvas.
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 0xFF;
+        data.set([data[i] * alpha, data[i + 1] * alpha, data[i + 2] * alpha, 0xFF], i);
+    }
+    return encodePng({ ...size, data });
+};
+
+/** The file extension matching encoded image bytes. */
+export const getImageExtension = (bytes: Uint8Array): string => {
+    if (readPngSize(bytes)) return 'png';
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpg';
+    if (String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP') return 'webp';
+    return 'png';
+};
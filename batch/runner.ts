@@ -0,0 +1,339 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AspectRatio } from "../App";
+import { getAspectRatioFor, getCanvasSize } from "../services/aspectRatio";
+import { createCharacterSketches, createGenerateParams, renderGenerationPrompt } from "../services/generationCore";
+import type { GenerationInputs } from "../services/generationCore";
+import type { HistoryCharacter } from "../services/historyStore";
+import { ProviderError } from "../services/imageProvider";
+import type { ImageProvider } from "../services/imageProvider";
+import { throwIfAborted } from "../services/cancellation";
+import { runWithConcurrency } from "../services/jobQueue";
+import type { JobStatus } from "../services/jobQueue";
+import { PROJECT_FORMAT, parseProject } from "../services/projectFile";
+import type { ProjectState } from "../services/projectFile";
+import { fromOpenPoseJson } from "../services/skeleton";
+import { analyzeSketch } from "../services/sketchAnalysis";
+import { SKETCH_COLORS } from "../services/sketchColors";
+import type { SketchColor } from "../services/sketchColors";
+import { createLegacyLayer, fitLayerToCanvas, toCanvasLayer, toRelativeLayer } from "../services/sketchLayers";
+import type { SketchLayer } from "../services/sketchLayers";
+import { rasterizeSketch } from "../services/sketchRaster";
+import type { BatchJob, Manifest } from "./manifest";
+import { encodePng, fitPngToAspectRatio, getImageExtension, readPngSize } from "./png";
+
+export const REPORT_FILE = 'report.json';
+const REPORT_FORMAT = 'pose-painter-batch-report';
+
+export interface BatchReportItem {
+    /** Also the name of the output file, without extension. */
+    id: string;
+    job: string;
+    /** The scene prompt, or null when it came from the job's project file. */
+    prompt: string | null;
+    variation: number;
+    status: JobStatus;
+    /** Relative to the output directory. */
+    file: string | null;
+    /** Further images the model returned for this item, named <id>-2, <id>-3 and so on. */
+    extraFiles?: string[];
+    /** What the model wrote alongside the image, if anything. */
+    modelText?: string;
+    /** Files kept as returned because the runner cannot decode them to crop or pad, so they may miss the aspect ratio. */
+    unfittedFiles?: string[];
+    /** Finished runs over all resumes; each may have retried transient errors internally. */
+    attempts: number;
+    durationMs: number | null;
+    finishedAt: string | null;
+    error: { code: string; message: string; modelText?: string } | null;
+}
+
+export interface BatchReport {
+    format: typeof REPORT_FORMAT;
+    version: 1;
+    model: string;
+    updatedAt: string;
+    summary: { [status in JobStatus]: number };
+    items: BatchReportItem[];
+}
+
+export interface BatchOptions {
+    /** Regenerate items that already succeeded. */
+    force: boolean;
+    /** Prepare sketches and prompts without calling the provider. */
+    dryRun: boolean;
+    signal?: AbortSignal;
+    log: (message: string) => void;
+}
+
+interface PreparedJob {
+    inputs: Omit<GenerationInputs, 'promptOverall' | 'prompt'>;
+    /** Used for items without a prompt of their own. */
+    defaultPrompt: string;
+}
+
+const MIME_TYPES: { [extension: string]: string } = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+};
+
+const readImageFile = async (file: string): Promise<File> => {
+    const type = MIME_TYPES[path.extname(file).toLowerCase()];
+    if (!type) throw new Error(`${file} is not a PNG, JPEG or WebP image.`);
+    return new File([await readFile(file)], path.basename(file), { type });
+};
+
+const getItemIds = (job: BatchJob): { id: string; prompt: string | null; variation: number }[] => {
+    const prompts = job.prompts ?? [null];
+    return prompts.flatMap((prompt, p) => Array.from({ length: job.variations }, (_, v) => ({
+        id: [job.id, prompts.length > 1 ? `p${p + 1}` : null, `v${v + 1}`].filter(Boolean).join('-'),
+        prompt,
+        variation: v + 1,
+    })));
+};
+
+const findColor = (value: string, where: string): SketchColor => {
+    const color = SKETCH_COLORS.find(color => color.name.toLowerCase() === value.toLowerCase() || color.value.toLowerCase() === value.toLowerCase());
+    if (!color) throw new Error(`${where}: unknown color "${value}". Use one of ${SKETCH_COLORS.map(color => color.name).join(', ')}.`);
+    return color;
+};
+
+/** Manifest characters with colors assigned in order, like new characters in the app. */
+const getCharacters = async (job: BatchJob): Promise<HistoryCharacter[] | null> => {
+    if (!job.characters) return null;
+    const used: string[] = [];
+    const characters: HistoryCharacter[] = [];
+    for (const [index, character] of job.characters.entries()) {
+        const color = character.color
+            ? findColor(character.color, `${job.id}, character ${index + 1}`)
+            : SKETCH_COLORS.find(color => !used.includes(color.value)) ?? SKETCH_COLORS[0];
+        used.push(color.value);
+        characters.push({
+            name: character.name ?? '',
+            prompt: character.prompt ?? '',
+            color,
+            refImages: await Promise.all(character.references.map(readImageFile)),
+        });
+    }
+    return characters;
+};
+
+/** Relative layers drawn for `from`, refitted to `to` the way the sketch pad does when the ratio changes. */
+const refitLayers = (layers: SketchLayer[], from: AspectRatio, to: AspectRatio): SketchLayer[] => {
+    if (from === to) return layers;
+    const fromSize = getCanvasSize(from);
+    const toSize = getCanvasSize(to);
+    return layers.map(layer => toRelativeLayer(fitLayerToCanvas(toCanvasLayer(layer, fromSize), fromSize, toSize, 'rescale'), toSize));
+};
+
+interface LoadedSketch {
+    aspectRatio: AspectRatio;
+    /** Relative layers; empty for image sketches. */
+    layers: SketchLayer[];
+    image: Buffer;
+    mimeType: string;
+    /** Set when the image was rendered from vector data. */
+    rendered: boolean;
+    project: ProjectState | null;
+}
+
+/**
+ * Reads a sketch image as is, or renders a project file or OpenPose JSON.
+ * Figures in OpenPose files take the characters' colors in order.
+ */
+const loadSketch = async (job: BatchJob, colors: string[]): Promise<LoadedSketch> => {
+    const extension = path.extname(job.sketch).toLowerCase();
+    if (MIME_TYPES[extension]) {
+        const image = await readFile(job.sketch);
+        const size = readPngSize(image);
+        const aspectRatio = job.aspectRatio ?? (size && getAspectRatioFor(size.width, size.height));
+        if (!aspectRatio) throw new Error(`${job.id}: set an aspectRatio for JPEG and WebP sketches.`);
+        return { aspectRatio, layers: [], image, mimeType: MIME_TYPES[extension], rendered: false, project: null };
+    }
+    if (extension !== '.json') throw new Error(`${job.id}: the sketch must be an image, a project file or OpenPose JSON.`);
+
+    const text = await readFile(job.sketch, 'utf8');
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error(`${job.id}: the sketch file is not valid JSON.`);
+    }
+
+    let aspectRatio: AspectRatio;
+    let layers: SketchLayer[];
+    let project: ProjectState | null = null;
+    if (data?.format === PROJECT_FORMAT) {
+        project = parseProject(text);
+        aspectRatio = job.aspectRatio ?? project.aspectRatio;
+        layers = refitLayers(project.layers, project.aspectRatio, aspectRatio);
+    } else if (Array.isArray(data?.people)) {
+        const fileRatio = data.canvas_width > 0 && data.canvas_height > 0 ? getAspectRatioFor(data.canvas_width, data.canvas_height) : null;
+        const ratio = job.aspectRatio ?? fileRatio;
+        if (!ratio) throw new Error(`${job.id}: set an aspectRatio for OpenPose files without a canvas size.`);
+        const size = getCanvasSize(ratio);
+        aspectRatio = ratio;
+        layers = [toRelativeLayer(createLegacyLayer([], fromOpenPoseJson(text, size.width, size.height, colors)), size)];
+    } else {
+        throw new Error(`${job.id}: the sketch JSON is neither a project file nor OpenPose keypoints.`);
+    }
+
+    return { aspectRatio, layers, image: encodePng(rasterizeSketch(layers, aspectRatio)), mimeType: 'image/png', rendered: true, project };
+};
+
+/**
+ * Loads everything a job's items share. Rendered sketches are saved under
+ * `sketches/` for reference, together with each character's pose when they
+ * are sent separately. Problems the app would warn about are logged.
+ */
+const prepareJob = async (job: BatchJob, outputDir: string, log: (message: string) => void): Promise<PreparedJob> => {
+    const characters = await getCharacters(job);
+    const sketch = await loadSketch(job, (characters ?? []).map(character => character.color.value).concat(SKETCH_COLORS.map(color => color.value)));
+    const inputs: PreparedJob['inputs'] = {
+        aspectRatio: sketch.aspectRatio,
+        characters: characters ?? sketch.project?.characters ?? [],
+        bgImage: job.background ? await readImageFile(job.background) : sketch.project?.bgImage ?? null,
+        sketchImage: `data:${sketch.mimeType};base64,${sketch.image.toString('base64')}`,
+        layers: sketch.layers,
+    };
+    if (!sketch.rendered) {
+        if (job.separateCharacters) log(`${job.id}: image sketches cannot be split by character; sending the sketch as it is.`);
+        return { inputs, defaultPrompt: sketch.project?.promptOverall ?? '' };
+    }
+
+    analyzeSketch(sketch.layers, sketch.aspectRatio, inputs.characters).warnings.forEach(warning => log(`${job.id}: ${warning.message}`));
+    const sketchDir = path.join(outputDir, 'sketches');
+    await mkdir(sketchDir, { recursive: true });
+    await writeFile(path.join(sketchDir, `${job.id}.png`), sketch.image);
+    if (job.separateCharacters) {
+        inputs.characterSketches = createCharacterSketches(inputs, layers => `data:image/png;base64,${encodePng(rasterizeSketch(layers, sketch.aspectRatio)).toString('base64')}`);
+        for (const { characterIndex, image } of inputs.characterSketches) {
+            await writeFile(path.join(sketchDir, `${job.id}-character-${characterIndex + 1}.png`), Buffer.from(image.split(',')[1], 'base64'));
+        }
+    }
+    return { inputs, defaultPrompt: sketch.project?.promptOverall ?? '' };
+};
+
+const readReport = (file: string): BatchReport | null => {
+    if (!existsSync(file)) return null;
+    try {
+        const report = JSON.parse(readFileSync(file, 'utf8'));
+        return report?.format === REPORT_FORMAT && Array.isArray(report.items) ? report : null;
+    } catch {
+        return null;
+    }
+};
+
+// Written to a temporary file first, so an interrupted run never leaves a truncated report.
+const writeReport = (file: string, report: BatchReport) => {
+    report.updatedAt = new Date().toISOString();
+    report.summary = { queued: 0, running: 0, done: 0, failed: 0 };
+    report.items.forEach(item => report.summary[item.status]++);
+    writeFileSync(`${file}.tmp`, JSON.stringify(report, null, 2));
+    renameSync(`${file}.tmp`, file);
+};
+
+const toReportError = (error: unknown): BatchReportItem['error'] => error instanceof ProviderError
+    ? { code: error.code, message: error.message, ...(error.modelText ? { modelText: error.modelText } : {}) }
+    : { code: 'failed', message: error instanceof Error ? error.message : String(error) };
+
+/**
+ * Runs every item of the manifest (one per job, prompt and variation) and
+ * keeps `report.json` in the output directory up to date as items settle.
+ * Items that succeeded in an earlier run and still have their output file
+ * are skipped, so rerunning after a failure or interruption resumes the batch.
+ */
+export const runBatch = async ({ settings, jobs }: Manifest, provider: ImageProvider, options: BatchOptions): Promise<BatchReport> => {
+    const outputDir = settings.output;
+    const reportFile = path.join(outputDir, REPORT_FILE);
+    await mkdir(path.join(outputDir, 'prompts'), { recursive: true });
+
+    const previous = new Map((options.force ? null : readReport(reportFile))?.items.map(item => [item.id, item]));
+    const report: BatchReport = {
+        format: REPORT_FORMAT,
+        version: 1,
+        model: provider.model,
+        updatedAt: '',
+        summary: { queued: 0, running: 0, done: 0, failed: 0 },
+        items: jobs.flatMap(job => getItemIds(job).map(({ id, prompt, variation }): BatchReportItem => {
+            const earlier = previous.get(id);
+            if (earlier?.status === 'done' && earlier.file && existsSync(path.join(outputDir, earlier.file))) return earlier;
+            return { id, job: job.id, prompt, variation, status: 'queued', file: null, attempts: earlier?.attempts ?? 0, durationMs: null, finishedAt: null, error: null };
+        })),
+    };
+
+    const pending = report.items.filter(item => item.status !== 'done');
+    const skipped = report.items.length - pending.length;
+    options.log(`${report.items.length} images in ${jobs.length} jobs${skipped ? `, ${skipped} already done` : ''}. Writing to ${outputDir}`);
+
+    // Each job is loaded once, when its first item starts.
+    const prepared = new Map<string, Promise<PreparedJob>>();
+    const getPreparedJob = (job: BatchJob) => {
+        if (!prepared.has(job.id)) prepared.set(job.id, prepareJob(job, outputDir, options.log));
+        return prepared.get(job.id)!;
+    };
+
+    const tasks = pending.map(item => async () => {
+        throwIfAborted(options.signal);
+        const job = jobs.find(candidate => candidate.id === item.job)!;
+        const { inputs: shared, defaultPrompt } = await getPreparedJob(job);
+        const inputs: GenerationInputs = { ...shared, promptOverall: item.prompt ?? defaultPrompt };
+        inputs.prompt = renderGenerationPrompt(inputs, job.template);
+        await writeFile(path.join(outputDir, 'prompts', `${item.id}.txt`), inputs.prompt);
+        if (options.dryRun) return null;
+
+        const startedAt = Date.now();
+        const params = createGenerateParams(inputs);
+        const { images, text } = await provider.generate(params, options.signal);
+        const unfitted: string[] = [];
+        const files = await Promise.all(images.map(async (base64, index) => {
+            const returned = Buffer.from(base64, 'base64');
+            const fitted = fitPngToAspectRatio(returned, params.aspectRatio, settings.ratioFit);
+            const image = fitted ?? returned;
+            const file = `${item.id}${index > 0 ? `-${index + 1}` : ''}.${getImageExtension(image)}`;
+            if (!fitted) unfitted.push(file);
+            await writeFile(path.join(outputDir, file), image);
+            return file;
+        }));
+        return { files, unfitted, text, durationMs: Date.now() - startedAt };
+    });
+
+    let settled = 0;
+    await runWithConcurrency(tasks, settings.concurrency, (index, { status, result, error }) => {
+        const item = pending[index];
+        if (options.dryRun) {
+            if (status === 'failed') options.log(`${item.id}: ${toReportError(error)!.message}`);
+            return;
+        }
+        // Items stopped by an interruption simply stay queued for the next run.
+        if (status === 'failed' && error instanceof ProviderError && error.code === 'cancelled') {
+            item.status = 'queued';
+        } else if (status !== 'running') {
+            settled++;
+            item.status = status;
+            item.attempts++;
+            item.finishedAt = new Date().toISOString();
+            item.file = result?.files[0] ?? null;
+            item.extraFiles = result && result.files.length > 1 ? result.files.slice(1) : undefined;
+            item.modelText = result?.text || undefined;
+            item.unfittedFiles = result?.unfitted.length ? result.unfitted : undefined;
+            item.durationMs = result?.durationMs ?? null;
+            item.error = status === 'failed' ? toReportError(error) : null;
+            const outcome = status === 'done' ? `saved ${[item.file, ...item.extraFiles ?? []].join(', ')} (${(item.durationMs! / 1000).toFixed(1)} s)` : `failed: ${item.error!.message}`;
+            options.log(`[${settled}/${pending.length}] ${item.id} ${outcome}`);
+        } else {
+            item.status = status;
+        }
+        writeReport(reportFile, report);
+    });
+
+    if (options.dryRun) {
+        options.log(`Dry run: wrote prompts and rendered sketches without calling ${provider.name}.`);
+    } else {
+        writeReport(reportFile, report);
+    }
+    return report;
+};
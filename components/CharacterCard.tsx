@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import type { Character } from '../App';
+import { PromptInput } from './PromptInput';
+import { SKETCH_COLORS } from '../services/sketchColors';
+import { ImageEditor } from './ImageEditor';
+import { UploadIcon, ClearIcon, LoadingSpinner } from './icons';
+import { ACCEPTED_IMAGE_TYPES, formatBytes, normalizeImage } from '../services/imagePreprocessing';
+
+interface CharacterCardProps {
+    character: Character;
+    index: number;
+    usedColors: string[];
+    /** Receives an update applied to the latest state, since reference images are added asynchronously. */
+    onChange: (update: (character: Character) => Character) => void;
+    onRemove: () => void;
+}
+
+const ReferenceThumbnail: React.FC<{ file: File; onEdit: () => void; onRemove: () => void }> = ({ file, onEdit, onRemove }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [file]);
+
+    return (
+        <div className="relative w-20 h-20 rounded-md border border-gray-600 bg-[#0D1117] overflow-hidden group">
+            {url && <img src={url} alt={file.name} className="w-full h-full object-cover" />}
+            <button
+                onClick={onEdit}
+                title="Crop, rotate or flip"
+                className="absolute inset-x-0 bottom-0 py-0.5 bg-black/70 text-xs text-gray-300 hover:text-blue-400"
+            >
+                <span className="group-hover:hidden">{formatBytes(file.size)}</span>
+                <span className="hidden group-hover:inline">Edit</span>
+            </button>
+            <button
+                onClick={onRemove}
+                title="Remove reference image"
+                className="absolute top-1 right-1 p-0.5 rounded bg-black/70 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+                <ClearIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export const CharacterCard: React.FC<CharacterCardProps> = ({ character, index, usedColors, onChange, onRemove }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+    const addFiles = async (files: FileList | null) => {
+        if (!files) return;
+        const valid = Array.from(files).filter(file => ACCEPTED_IMAGE_TYPES.includes(file.type));
+        if (valid.length < files.length) alert('Invalid file type. Please upload JPEG, PNG, or WebP.');
+        if (valid.length === 0) return;
+        setIsProcessing(true);
+        try {
+            const normalized = await Promise.all(valid.map(file => normalizeImage(file)));
+            onChange(current => ({ ...current, refImages: [...current.refImages, ...normalized] }));
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Failed to process the image.');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const replaceFile = (fileIndex: number, file: File) => {
+        onChange(current => ({ ...current, refImages: current.refImages.map((item, i) => i === fileIndex ? file : item) }));
+        setEditingIndex(null);
+    };
+
+    const removeFile = (fileIndex: number) => {
+        onChange(current => ({ ...current, refImages: current.refImages.filter((_, i) => i !== fileIndex) }));
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        addFiles(e.dataTransfer.files);
+    };
+
+    const handleDrag = (e: React.DragEvent<HTMLLabelElement>, dragging: boolean) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(dragging);
+    };
+
+    return (
+        <div className="p-4 rounded-md border-2 bg-[#0D1117]/60" style={{ borderColor: `${character.color.value}80` }}>
+            <div className="flex items-center gap-2 mb-3">
+                <span className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: character.color.value }}></span>
+                <input
+                    type="text"
+                    value={character.name}
+                    onChange={(e) => onChange(current => ({ ...current, name: e.target.value }))}
+                    placeholder={`Character ${index + 1}`}
+                    className="flex-grow bg-transparent border-b border-gray-600 text-sm font-semibold text-gray-200 focus:outline-none focus:border-blue-500"
+                />
+                <button onClick={onRemove} title="Remove character" className="p-1 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors">
+                    <ClearIcon className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3">
+                <span className="text-sm font-medium text-gray-300">Sketch Color:</span>
+                {SKETCH_COLORS.map(color => {
+                    const isTaken = color.value !== character.color.value && usedColors.includes(color.value);
+                    return (
+                        <button
+                            key={color.name}
+                            title={isTaken ? `${color.name} (used by another character)` : color.name}
+                            disabled={isTaken}
+                            onClick={() => onChange(current => ({ ...current, color }))}
+                            className={`w-5 h-5 rounded-full border-2 transition-all disabled:opacity-20 disabled:cursor-not-allowed ${character.color.value === color.value ? 'border-white scale-110' : 'border-transparent'}`}
+                            style={{ backgroundColor: color.value }}
+                        ></button>
+                    );
+                })}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-3">
+                {character.refImages.map((file, i) => (
+                    <ReferenceThumbnail key={`${file.name}-${i}`} file={file} onEdit={() => setEditingIndex(i)} onRemove={() => removeFile(i)} />
+                ))}
+                <label
+                    title="Add reference images (front, side, outfit...)"
+                    className={`flex flex-col items-center justify-center w-20 h-20 rounded-md border-2 border-dashed border-gray-600 cursor-pointer transition-colors ${isDragging ? 'bg-blue-900/50' : 'bg-[#0D1117] hover:bg-gray-800/50'}`}
+                    onDragEnter={(e) => handleDrag(e, true)}
+                    onDragLeave={(e) => handleDrag(e, false)}
+                    onDragOver={(e) => handleDrag(e, true)}
+                    onDrop={handleDrop}
+                >
+                    {isProcessing ? <LoadingSpinner /> : <UploadIcon className="h-6 w-6 text-gray-500" />}
+                    <span className="text-xs text-gray-400 mt-1">Add</span>
+                    <input
+                        type="file"
+                        className="hidden"
+                        multiple
+                        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                        onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+                    />
+                </label>
+            </div>
+
+            {editingIndex !== null && character.refImages[editingIndex] && (
+                <ImageEditor
+                    file={character.refImages[editingIndex]}
+                    onApply={(file) => replaceFile(editingIndex, file)}
+                    onClose={() => setEditingIndex(null)}
+                />
+            )}
+
+            <PromptInput
+                label={`Prompt for ${character.name || `Character ${index + 1}`} (${character.color.name} Pose)`}
+                placeholder="e.g., A fantasy hero with silver armor..."
+                value={character.prompt}
+                onChange={(prompt) => onChange(current => ({ ...current, prompt }))}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ERROR_HINTS, ProviderError } from '../services/imageProvider';
+
+interface ErrorNoticeProps {
+    error: Error | string;
+    className?: string;
+}
+
+/** Shows an error with what to do about it and, when there is one, the model's own reply. */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, className = '' }) => {
+    const providerError = error instanceof ProviderError ? error : null;
+
+    return (
+        <div className={`text-sm ${className}`}>
+            <p className="text-red-400">{typeof error === 'string' ? error : error.message}</p>
+            {providerError && <p className="text-gray-400">{ERROR_HINTS[providerError.code]}</p>}
+            {providerError?.modelText && (
+                <blockquote className="mt-1 border-l-2 border-gray-600 pl-2 text-gray-300 italic whitespace-pre-wrap">
+                    Model reply: {providerError.modelText}
+                </blockquote>
+            )}
+        </div>
+    );
+};
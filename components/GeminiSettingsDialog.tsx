@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { checkGeminiConnection } from '../services/geminiService';
+import type { GeminiConnection } from '../services/geminiService';
+import { ProviderError } from '../services/imageProvider';
+import { forgetApiKey, loadApiKey, saveApiKey } from '../services/apiKeyStore';
+import type { ApiKey, ApiKeySource } from '../services/apiKeyStore';
+import type { GeminiSettings } from '../services/providerRegistry';
+import { ErrorNotice } from './ErrorNotice';
+import { LoadingSpinner } from './icons';
+
+interface GeminiSettingsDialogProps {
+    apiKey: ApiKey | null;
+    settings: GeminiSettings;
+    onApiKeyChange: (apiKey: ApiKey | null) => void;
+    onSettingsChange: (settings: GeminiSettings) => void;
+    onClose: () => void;
+}
+
+type CheckResult = { ok: true; message: string } | { ok: false; error: Error };
+
+const KEY_SOURCES: { [source in ApiKeySource]: string } = {
+    saved: 'Using the key saved on this device.',
+    session: 'Using the key entered for this tab. It is forgotten when the tab closes.',
+    build: 'Using the development key from GEMINI_API_KEY (VITE_EMBED_KEY=1).',
+};
+
+// "AIzaSyD...x4Q0" -> "AIza…x4Q0"
+const maskKey = (key: string) => key.length > 12 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '…';
+
+const buttonClasses = 'px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+const inputClasses = 'w-full bg-[#0D1117] border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500';
+
+/** Where Gemini requests go, and entering, checking and forgetting the API key. */
+export const GeminiSettingsDialog: React.FC<GeminiSettingsDialogProps> = ({ apiKey, settings, onApiKeyChange, onSettingsChange, onClose }) => {
+    const [draftKey, setDraftKey] = useState('');
+    const [showKey, setShowKey] = useState(false);
+    const [remember, setRemember] = useState(apiKey?.source !== 'session');
+    const [isChecking, setIsChecking] = useState(false);
+    const [result, setResult] = useState<CheckResult | null>(null);
+    const checkRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => checkRef.current?.abort(), []);
+
+    const runCheck = async (connection: GeminiConnection): Promise<Error | null> => {
+        checkRef.current?.abort();
+        const controller = new AbortController();
+        checkRef.current = controller;
+        setIsChecking(true);
+        setResult(null);
+        try {
+            await checkGeminiConnection(connection, controller.signal);
+            return null;
+        } catch (e) {
+            return e instanceof Error ? e : new Error(String(e));
+        } finally {
+            if (checkRef.current === controller) setIsChecking(false);
+        }
+    };
+
+    const handleTest = async () => {
+        const connection: GeminiConnection = settings.connection === 'proxy'
+            ? { type: 'proxy', url: settings.proxyUrl }
+            : { type: 'key', apiKey: draftKey.trim() || apiKey?.value };
+        const error = await runCheck(connection);
+        if (error instanceof ProviderError && error.code === 'cancelled') return;
+        setResult(error ? { ok: false, error } : {
+            ok: true,
+            message: settings.connection === 'proxy' ? 'The proxy server is reachable and its key works.' : 'The key works.',
+        });
+    };
+
+    const handleSave = async () => {
+        const key = draftKey.trim();
+        const error = await runCheck({ type: 'key', apiKey: key });
+        if (error instanceof ProviderError && error.code === 'cancelled') return;
+        // A rejected key is never stored; one that could not be checked (e.g. offline) is.
+        if (error instanceof ProviderError && error.code === 'auth') {
+            setResult({ ok: false, error });
+            return;
+        }
+        onApiKeyChange(saveApiKey(key, remember));
+        setDraftKey('');
+        setResult(error
+            ? { ok: false, error: new Error(`The key was saved, but could not be checked: ${error.message}`) }
+            : { ok: true, message: 'The key works and was saved.' });
+    };
+
+    const handleForget = () => {
+        forgetApiKey();
+        onApiKeyChange(loadApiKey());
+        setResult(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="bg-[#161B22] p-4 rounded-lg border border-gray-700 flex flex-col gap-3 w-[32rem] max-w-[90vw] text-sm text-gray-300" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-sm font-semibold text-blue-400">Gemini connection</h3>
+                <div className="flex flex-col gap-1">
+                    <label className="flex items-center gap-2">
+                        <input type="radio" checked={settings.connection === 'key'} onChange={() => onSettingsChange({ ...settings, connection: 'key' })} />
+                        Call Gemini from this browser with an API key
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" checked={settings.connection === 'proxy'} onChange={() => onSettingsChange({ ...settings, connection: 'proxy' })} />
+                        Go through a proxy server that holds the key
+                    </label>
+                </div>
+
+                {settings.connection === 'key' ? (
+                    <>
+                        <p className="text-gray-400">
+                            {apiKey ? <>{KEY_SOURCES[apiKey.source]} <span className="font-mono">{maskKey(apiKey.value)}</span></> : 'No API key is set.'}
+                        </p>
+                        <div className="flex gap-2">
+                            <input
+                                type={showKey ? 'text' : 'password'}
+                                value={draftKey}
+                                onChange={(e) => setDraftKey(e.target.value)}
+                                placeholder={apiKey ? 'Enter a different key' : 'Paste your Gemini API key'}
+                                autoComplete="off"
+                                spellCheck={false}
+                                className={`${inputClasses} font-mono`}
+                            />
+                            <button onClick={() => setShowKey(!showKey)} className={buttonClasses}>{showKey ? 'Hide' : 'Show'}</button>
+                            <button onClick={() => setDraftKey('')} disabled={!draftKey} className={buttonClasses}>Clear</button>
+                        </div>
+                        <label className="flex items-center gap-2" title="Otherwise the key is forgotten when this tab closes">
+                            <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+                            Remember on this device
+                        </label>
+                        <p className="text-xs text-gray-500">
+                            The key is stored in this browser only and sent to Google with each request. Anyone using this browser profile can read it.
+                        </p>
+                        <p className="text-xs text-gray-500">
+                            For local development, <span className="font-mono">npm run dev</span> uses GEMINI_API_KEY from .env.local when VITE_EMBED_KEY=1 is set there too. Builds never include that key.
+                        </p>
+                    </>
+                ) : (
+                    <>
+                        <label className="flex flex-col gap-1">
+                            Proxy URL:
+                            <input
+                                type="text"
+                                value={settings.proxyUrl}
+                                onChange={(e) => onSettingsChange({ ...settings, proxyUrl: e.target.value })}
+                                placeholder="/api"
+                                className={inputClasses}
+                            />
+                        </label>
+                        <p className="text-xs text-gray-500">
+                            Start one with <span className="font-mono">npm run proxy</span>. The key stays on the server; this browser never sees it.
+                        </p>
+                    </>
+                )}
+
+                {isChecking && <p className="flex items-center text-gray-400"><LoadingSpinner /> Checking...</p>}
+                {result && (result.ok ? <p className="text-green-400">{result.message}</p> : <ErrorNotice error={result.error} />)}
+
+                <div className="flex justify-between gap-2">
+                    <div className="flex gap-2">
+                        <button onClick={handleTest} disabled={isChecking || (settings.connection === 'key' ? !draftKey.trim() && !apiKey : !settings.proxyUrl.trim())} className={buttonClasses}>Test</button>
+                        {settings.connection === 'key' && (
+                            <button
+                                onClick={handleForget}
+                                disabled={!apiKey || apiKey.source === 'build'}
+                                title="Remove the entered key from this browser"
+                                className={buttonClasses}
+                            >
+                                Forget key
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className={buttonClasses}>Close</button>
+                        {settings.connection === 'key' && (
+                            <button
+                                onClick={handleSave}
+                                disabled={isChecking || !draftKey.trim()}
+                                className="px-4 py-1 text-sm font-bold text-white rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Check and save
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { HistoryEntry } from '../services/historyStore';
+import { StarIcon, ClearIcon, UndoIcon } from './icons';
+
+interface HistoryPanelProps {
+    entries: HistoryEntry[];
+    onView: (entry: HistoryEntry) => void;
+    onRestore: (entry: HistoryEntry) => void;
+    onToggleFavorite: (entry: HistoryEntry) => void;
+    onDelete: (entry: HistoryEntry) => void;
+}
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onView, onRestore, onToggleFavorite, onDelete }) => {
+    const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+
+    const visibleEntries = showFavoritesOnly ? entries.filter(entry => entry.favorite) : entries;
+
+    return (
+        <div className="bg-[#161B22] p-6 rounded-lg border border-gray-700">
+            <h2 className="text-xl font-semibold mb-4 text-blue-400 border-b border-gray-700 pb-2 flex justify-between items-center">
+                History
+                <button
+                    onClick={() => setShowFavoritesOnly(prev => !prev)}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors flex items-center gap-1 ${showFavoritesOnly ? 'bg-yellow-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                    <StarIcon className="w-4 h-4" /> Favorites
+                </button>
+            </h2>
+
+            {visibleEntries.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-6">
+                    {showFavoritesOnly ? 'No favorites yet.' : 'Generated images will appear here.'}
+                </p>
+            ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+                    {visibleEntries.map(entry => (
+                        <div key={entry.id} className="bg-[#0D1117] rounded-md border border-gray-700 overflow-hidden flex flex-col">
+                            <button onClick={() => onView(entry)} className="block aspect-square bg-black">
+                                <img src={entry.resultImage} alt="Generated result" className="w-full h-full object-contain" />
+                            </button>
+                            <div className="p-2 flex flex-col gap-1">
+                                <p className="text-xs text-gray-400 truncate" title={entry.promptOverall}>
+                                    {entry.promptOverall || entry.characters.map(character => character.name).filter(Boolean).join(', ') || 'Untitled'}
+                                </p>
+                                <p className="text-[10px] text-gray-500">{formatTimestamp(entry.createdAt)} · {entry.aspectRatio}</p>
+                                <div className="flex justify-between mt-1">
+                                    <button
+                                        onClick={() => onToggleFavorite(entry)}
+                                        title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                                        className={`p-1 rounded-md hover:bg-gray-700 transition-colors ${entry.favorite ? 'text-yellow-400' : 'text-gray-400'}`}
+                                    >
+                                        <StarIcon className="w-4 h-4" fill={entry.favorite ? 'currentColor' : 'none'} />
+                                    </button>
+                                    <button onClick={() => onRestore(entry)} title="Restore these inputs" className="p-1 rounded-md text-gray-400 hover:text-blue-400 hover:bg-gray-700 transition-colors">
+                                        <UndoIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => onDelete(entry)} title="Delete" className="p-1 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors">
+                                        <ClearIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
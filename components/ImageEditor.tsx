@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LoadingSpinner } from './icons';
+import { MAX_IMAGE_DIMENSION, decodeImage, formatBytes, getEditedSize, getImageSource, normalizeImage, renderEditedImage } from '../services/imagePreprocessing';
+import type { CropRect, ImageEdit, Rotation } from '../services/imagePreprocessing';
+
+interface ImageEditorProps {
+    file: File;
+    /** Receives the re-normalized image. */
+    onApply: (file: File) => void;
+    onClose: () => void;
+}
+
+const PREVIEW_SIZE = 480;
+// Drags smaller than this (as a fraction of the image) count as a click and clear the crop.
+const MIN_CROP = 0.02;
+
+const buttonClasses = 'px-2 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Crop, rotate and flip an uploaded image. Edits are applied to the original upload, not to the already re-encoded file. */
+export const ImageEditor: React.FC<ImageEditorProps> = ({ file, onApply, onClose }) => {
+    const { source, edit: initialEdit } = useMemo(() => getImageSource(file), [file]);
+    const [image, setImage] = useState<ImageBitmap | null>(null);
+    const [edit, setEdit] = useState<ImageEdit>(initialEdit);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        let loaded: ImageBitmap | null = null;
+        let cancelled = false;
+        decodeImage(source)
+            .then(bitmap => {
+                if (cancelled) {
+                    bitmap.close();
+                    return;
+                }
+                loaded = bitmap;
+                setImage(bitmap);
+            })
+            .catch(e => setError(e instanceof Error ? e.message : 'Could not read the image.'));
+        return () => {
+            cancelled = true;
+            loaded?.close();
+        };
+    }, [source]);
+
+    // The rotated and flipped image at preview size; cropping only draws an overlay on top.
+    const preview = useMemo(() => (
+        image && renderEditedImage(image, { ...edit, crop: null }, PREVIEW_SIZE)
+    ), [image, edit.rotation, edit.flipX, edit.flipY]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !preview) return;
+        canvas.width = preview.width;
+        canvas.height = preview.height;
+        ctx.drawImage(preview, 0, 0);
+
+        const { crop } = edit;
+        if (!crop) return;
+        const x = crop.x * canvas.width;
+        const y = crop.y * canvas.height;
+        const width = crop.width * canvas.width;
+        const height = crop.height * canvas.height;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.beginPath();
+        ctx.rect(0, 0, canvas.width, canvas.height);
+        ctx.rect(x, y, width, height);
+        ctx.fill('evenodd');
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(x, y, width, height);
+        ctx.setLineDash([]);
+    }, [preview, edit.crop]);
+
+    const getFraction = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+    };
+
+    const updateCrop = (crop: CropRect | null) => setEdit(prev => ({ ...prev, crop }));
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStartRef.current = getFraction(e);
+        updateCrop(null);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const start = dragStartRef.current;
+        if (!start) return;
+        const point = getFraction(e);
+        updateCrop({
+            x: Math.min(start.x, point.x),
+            y: Math.min(start.y, point.y),
+            width: Math.abs(point.x - start.x),
+            height: Math.abs(point.y - start.y),
+        });
+    };
+
+    const handlePointerUp = () => {
+        dragStartRef.current = null;
+        setEdit(prev => prev.crop && (prev.crop.width < MIN_CROP || prev.crop.height < MIN_CROP) ? { ...prev, crop: null } : prev);
+    };
+
+    // Rotating or flipping moves the image under the crop, so the crop is cleared.
+    const rotate = (delta: number) => setEdit(prev => ({ ...prev, rotation: ((prev.rotation + delta + 360) % 360) as Rotation, crop: null }));
+    const flip = (axis: 'flipX' | 'flipY') => setEdit(prev => ({ ...prev, [axis]: !prev[axis], crop: null }));
+
+    const handleApply = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            onApply(await normalizeImage(source, edit));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to process the image.');
+            setIsSaving(false);
+        }
+    };
+
+    const outputSize = image && getEditedSize(image, edit);
+    const outputScale = outputSize ? Math.min(1, MAX_IMAGE_DIMENSION / Math.max(outputSize.width, outputSize.height)) : 1;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="bg-[#161B22] p-4 rounded-lg border border-gray-700 flex flex-col gap-3 max-w-[90vw]" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-sm font-semibold text-blue-400">Edit image</h3>
+                <div className="flex items-center justify-center bg-[#0D1117] rounded-md" style={{ minWidth: 240, minHeight: 240 }}>
+                    {image ? (
+                        <canvas
+                            ref={canvasRef}
+                            className="max-w-full cursor-crosshair touch-none"
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                        />
+                    ) : !error && <LoadingSpinner />}
+                </div>
+                <p className="text-xs text-gray-400">Drag on the image to crop.</p>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => rotate(-90)} title="Rotate left" className={buttonClasses}>↺ Rotate</button>
+                    <button onClick={() => rotate(90)} title="Rotate right" className={buttonClasses}>↻ Rotate</button>
+                    <button onClick={() => flip('flipX')} className={buttonClasses}>Flip horizontal</button>
+                    <button onClick={() => flip('flipY')} className={buttonClasses}>Flip vertical</button>
+                    <button onClick={() => updateCrop(null)} disabled={!edit.crop} className={buttonClasses}>Clear crop</button>
+                </div>
+                {outputSize && (
+                    <p className="text-xs text-gray-400">
+                        Original: {image.width} × {image.height} px, {formatBytes(source.size)}. Sent as{' '}
+                        {Math.round(outputSize.width * outputScale)} × {Math.round(outputSize.height * outputScale)} px
+                        {outputScale < 1 && ` (scaled down to ${MAX_IMAGE_DIMENSION} px)`}.
+                    </p>
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className={buttonClasses}>Cancel</button>
+                    <button
+                        onClick={handleApply}
+                        disabled={!image || isSaving}
+                        className="px-4 py-1 text-sm font-bold text-white rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    >
+                        {isSaving ? <><LoadingSpinner /> Saving...</> : 'Apply'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,32 +1,57 @@
 
-import React, { useState, useCallback } from 'react';
-import { UploadIcon } from './icons';
+import React, { useState, useCallback, useEffect } from 'react';
+import { UploadIcon, LoadingSpinner } from './icons';
+import { ImageEditor } from './ImageEditor';
+import { ACCEPTED_IMAGE_TYPES, formatBytes, normalizeImage } from '../services/imagePreprocessing';
 
 interface ImageUploaderProps {
     label: string;
     borderColor?: string;
+    file?: File | null;
     onFileChange: (file: File | null) => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, borderColor = 'border-gray-600', onFileChange }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, borderColor = 'border-gray-600', file, onFileChange }) => {
+    const [localFile, setLocalFile] = useState<File | null>(null);
     const [preview, setPreview] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
 
-    const handleFile = useCallback((file: File | null) => {
-        if (file && ['image/jpeg', 'image/png', 'image/webp'].includes(file.type)) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setPreview(reader.result as string);
-            };
-            reader.readAsDataURL(file);
-            onFileChange(file);
-        } else {
+    // When controlled, files set from outside (e.g. restored from history) are shown as well.
+    const currentFile = file === undefined ? localFile : file;
+
+    useEffect(() => {
+        if (!currentFile) {
             setPreview(null);
-            onFileChange(null);
-            if (file) alert('Invalid file type. Please upload JPEG, PNG, or WebP.');
+            return;
         }
+        const reader = new FileReader();
+        reader.onloadend = () => setPreview(reader.result as string);
+        reader.readAsDataURL(currentFile);
+    }, [currentFile]);
+
+    const setFile = useCallback((next: File | null) => {
+        setLocalFile(next);
+        onFileChange(next);
     }, [onFileChange]);
 
+    const handleFile = useCallback(async (file: File | null) => {
+        if (file && ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+            setIsProcessing(true);
+            try {
+                setFile(await normalizeImage(file));
+            } catch (e) {
+                alert(e instanceof Error ? e.message : 'Failed to process the image.');
+            } finally {
+                setIsProcessing(false);
+            }
+        } else {
+            setFile(null);
+            if (file) alert('Invalid file type. Please upload JPEG, PNG, or WebP.');
+        }
+    }, [setFile]);
+
     const handleDragEnter = (e: React.DragEvent<HTMLLabelElement>) => {
         e.preventDefault();
         e.stopPropagation();
@@ -62,28 +87,53 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, borderColor
     const containerClasses = `relative flex flex-col items-center justify-center p-4 w-full h-40 rounded-md border-2 border-dashed transition-colors duration-300 ${borderColor} ${isDragging ? 'bg-blue-900/50' : 'bg-[#0D1117] hover:bg-gray-800/50'}`;
 
     return (
-        <label
-            className={containerClasses}
-            onDragEnter={handleDragEnter}
-            onDragLeave={handleDragLeave}
-            onDragOver={handleDragOver}
-            onDrop={handleDrop}
-        >
-            {preview ? (
-                <img src={preview} alt="Preview" className="w-full h-full object-contain rounded-md" />
-            ) : (
-                <div className="text-center text-gray-400">
-                    <UploadIcon className="mx-auto h-8 w-8 text-gray-500 mb-2" />
-                    <p className="text-sm">Click to upload or drag and drop</p>
-                    <p className="text-xs mt-1">{label}</p>
-                </div>
+        <>
+            <label
+                className={containerClasses}
+                onDragEnter={handleDragEnter}
+                onDragLeave={handleDragLeave}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+            >
+                {isProcessing ? (
+                    <LoadingSpinner />
+                ) : preview ? (
+                    <>
+                        <img src={preview} alt="Preview" className="w-full h-full object-contain rounded-md" />
+                        {currentFile && (
+                            <div className="absolute bottom-1 right-1 flex items-center gap-1">
+                                <span className="px-1 rounded bg-black/70 text-xs text-gray-300">{formatBytes(currentFile.size)}</span>
+                                <button
+                                    // Inside the label a plain click would open the file picker.
+                                    onClick={(e) => { e.preventDefault(); setIsEditing(true); }}
+                                    className="px-2 py-0.5 rounded bg-black/70 text-xs text-gray-200 hover:text-blue-400"
+                                >
+                                    Edit
+                                </button>
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <div className="text-center text-gray-400">
+                        <UploadIcon className="mx-auto h-8 w-8 text-gray-500 mb-2" />
+                        <p className="text-sm">Click to upload or drag and drop</p>
+                        <p className="text-xs mt-1">{label}</p>
+                    </div>
+                )}
+                <input
+                    type="file"
+                    className="hidden"
+                    accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                    onChange={handleChange}
+                />
+            </label>
+            {isEditing && currentFile && (
+                <ImageEditor
+                    file={currentFile}
+                    onApply={(edited) => { setFile(edited); setIsEditing(false); }}
+                    onClose={() => setIsEditing(false)}
+                />
             )}
-            <input
-                type="file"
-                className="hidden"
-                accept="image/jpeg,image/png,image/webp"
-                onChange={handleChange}
-            />
-        </label>
+        </>
     );
 };
@@ -0,0 +1,96 @@
+import React from 'react';
+import type { SketchLayer } from '../services/sketchLayers';
+import { isLayerEmpty, moveLayer, updateLayer } from '../services/sketchLayers';
+import { EyeIcon, EyeSlashIcon, LockIcon, ClearIcon } from './icons';
+
+interface LayerPanelProps {
+    layers: SketchLayer[];
+    activeLayerId: string | null;
+    getLayerName: (layer: SketchLayer) => string;
+    getLayerColor: (layer: SketchLayer) => string | null;
+    onSelect: (id: string) => void;
+    onChange: (layers: SketchLayer[]) => void;
+    onAdd: () => void;
+}
+
+const iconButtonClasses = 'p-1 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+export const LayerPanel: React.FC<LayerPanelProps> = ({ layers, activeLayerId, getLayerName, getLayerColor, onSelect, onChange, onAdd }) => {
+    const update = (id: string, changes: Partial<SketchLayer>) => onChange(updateLayer(layers, id, layer => ({ ...layer, ...changes })));
+
+    const handleDelete = (layer: SketchLayer) => {
+        if (!isLayerEmpty(layer) && !window.confirm(`Delete layer "${getLayerName(layer)}" and its contents?`)) return;
+        onChange(layers.filter(item => item.id !== layer.id));
+    };
+
+    // Shown top-most first, like most drawing apps.
+    const ordered = [...layers].reverse();
+
+    return (
+        <div className="mt-4 bg-[#0D1117] p-2 rounded-md border border-gray-700">
+            <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-medium text-gray-300">Layers</span>
+                <button onClick={onAdd} className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">+ Layer</button>
+            </div>
+            <div className="flex flex-col gap-1">
+                {ordered.map((layer, index) => {
+                    const color = getLayerColor(layer);
+                    const isActive = layer.id === activeLayerId;
+                    return (
+                        <div
+                            key={layer.id}
+                            onClick={() => onSelect(layer.id)}
+                            className={`flex flex-wrap items-center gap-2 p-1 rounded-md text-sm cursor-pointer ${isActive ? 'bg-blue-600/30 border border-blue-500/60' : 'border border-transparent hover:bg-gray-800'}`}
+                        >
+                            <button
+                                onClick={(e) => { e.stopPropagation(); update(layer.id, { visible: !layer.visible }); }}
+                                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                                className={`${iconButtonClasses} ${layer.visible ? 'text-gray-300' : 'text-gray-600'}`}
+                            >
+                                {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4" />}
+                            </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); update(layer.id, { locked: !layer.locked }); }}
+                                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                                className={`${iconButtonClasses} ${layer.locked ? 'text-yellow-400' : 'text-gray-600'}`}
+                            >
+                                <LockIcon className="w-4 h-4" />
+                            </button>
+                            {color && <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: color }}></span>}
+                            <input
+                                type="text"
+                                value={getLayerName(layer)}
+                                onChange={(e) => update(layer.id, { name: e.target.value })}
+                                className="flex-grow min-w-0 bg-transparent text-gray-200 focus:outline-none focus:border-b focus:border-blue-500"
+                            />
+                            <label className="flex items-center gap-1 text-xs text-gray-400" title="Include this layer in the sketch sent to the model" onClick={(e) => e.stopPropagation()}>
+                                <input type="checkbox" checked={layer.includeInGeneration} onChange={(e) => update(layer.id, { includeInGeneration: e.target.checked })} />
+                                Send
+                            </label>
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={Math.round(layer.opacity * 100)}
+                                title={`Opacity: ${Math.round(layer.opacity * 100)}%`}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => update(layer.id, { opacity: parseInt(e.target.value) / 100 })}
+                                className="w-16 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                            />
+                            <button onClick={(e) => { e.stopPropagation(); onChange(moveLayer(layers, layer.id, 'up')); }} disabled={index === 0} title="Move up" className={`${iconButtonClasses} text-gray-300`}>▲</button>
+                            <button onClick={(e) => { e.stopPropagation(); onChange(moveLayer(layers, layer.id, 'down')); }} disabled={index === ordered.length - 1} title="Move down" className={`${iconButtonClasses} text-gray-300`}>▼</button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); handleDelete(layer); }}
+                                disabled={!!layer.characterId || layers.length === 1}
+                                title={layer.characterId ? 'Character layers are removed with their character' : 'Delete layer'}
+                                className={`${iconButtonClasses} text-gray-400 hover:text-red-400`}
+                            >
+                                <ClearIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
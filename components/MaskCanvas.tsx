@@ -0,0 +1,124 @@
+import React, { useState, useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import type { Point, Stroke } from './SketchPad';
+
+interface MaskCanvasProps {
+    width: number;
+    height: number;
+    tool: 'brush' | 'eraser';
+    brushSize: number;
+}
+
+export interface MaskCanvasHandle {
+    /** Returns the mask as a PNG data URL: white where the image may change, black elsewhere. */
+    getMaskData: () => string | null;
+    hasMask: () => boolean;
+    clear: () => void;
+    undo: () => void;
+}
+
+const MASK_PREVIEW_COLOR = '#EF4444';
+
+const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: Stroke[], paintColor: string, eraseMode: 'erase' | 'paint-black') => {
+    strokes.forEach(stroke => {
+        if (stroke.points.length === 0) return;
+        ctx.beginPath();
+        ctx.lineWidth = stroke.width;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        if (stroke.tool === 'eraser') {
+            ctx.globalCompositeOperation = eraseMode === 'erase' ? 'destination-out' : 'source-over';
+            ctx.strokeStyle = '#000000';
+        } else {
+            ctx.globalCompositeOperation = 'source-over';
+            ctx.strokeStyle = paintColor;
+        }
+        ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+        stroke.points.forEach(point => ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+    });
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * A transparent canvas laid over an image for painting an inpainting mask.
+ * Strokes are kept in the image's own pixel space, so the exported mask
+ * lines up with the image regardless of how large it is displayed.
+ */
+export const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ width, height, tool, brushSize }, ref) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [strokes, setStrokes] = useState<Stroke[]>([]);
+    const [currentPath, setCurrentPath] = useState<Stroke | null>(null);
+
+    const getImageCoordinates = (e: React.PointerEvent): Point => {
+        const canvas = canvasRef.current;
+        if (!canvas) return { x: 0, y: 0 };
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    // Brush size is given in screen pixels; convert it to image pixels.
+    const getScaledWidth = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return brushSize;
+        return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    };
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!ctx || !canvas) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawStrokes(ctx, currentPath ? [...strokes, currentPath] : strokes, MASK_PREVIEW_COLOR, 'erase');
+    }, [strokes, currentPath, width, height]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setCurrentPath({ points: [getImageCoordinates(e)], color: MASK_PREVIEW_COLOR, width: getScaledWidth(), tool });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!currentPath) return;
+        const point = getImageCoordinates(e);
+        setCurrentPath(prev => prev ? { ...prev, points: [...prev.points, point] } : null);
+    };
+
+    const handlePointerUp = () => {
+        if (currentPath) {
+            setStrokes(prev => [...prev, currentPath]);
+        }
+        setCurrentPath(null);
+    };
+
+    useImperativeHandle(ref, () => ({
+        getMaskData: () => {
+            const maskCanvas = document.createElement('canvas');
+            maskCanvas.width = width;
+            maskCanvas.height = height;
+            const ctx = maskCanvas.getContext('2d');
+            if (!ctx) return null;
+            ctx.fillStyle = '#000000';
+            ctx.fillRect(0, 0, width, height);
+            drawStrokes(ctx, strokes, '#FFFFFF', 'paint-black');
+            return maskCanvas.toDataURL('image/png');
+        },
+        hasMask: () => strokes.some(stroke => stroke.tool === 'brush'),
+        clear: () => setStrokes([]),
+        undo: () => setStrokes(prev => prev.slice(0, -1)),
+    }));
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+        />
+    );
+});
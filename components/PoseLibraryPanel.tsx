@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { renderPoseStampPreview } from '../services/poseLibrary';
+import type { PoseStamp } from '../services/poseLibrary';
+import { ClearIcon } from './icons';
+
+interface PoseLibraryPanelProps {
+    stamps: PoseStamp[];
+    /** The stamp the next click on the canvas places. */
+    activeStampId: string | null;
+    /** Place stamps in the selected sketch color instead of the colors they were saved with. */
+    useBrushColor: boolean;
+    canSave: boolean;
+    onSave: () => void;
+    onPick: (stamp: PoseStamp) => void;
+    onRename: (stamp: PoseStamp, name: string) => void;
+    onDelete: (stamp: PoseStamp) => void;
+    onUseBrushColorChange: (useBrushColor: boolean) => void;
+}
+
+export const PoseLibraryPanel: React.FC<PoseLibraryPanelProps> = ({ stamps, activeStampId, useBrushColor, canSave, onSave, onPick, onRename, onDelete, onUseBrushColorChange }) => {
+    const previews = useMemo(() => new Map(stamps.map(stamp => [stamp.id, renderPoseStampPreview(stamp)])), [stamps]);
+
+    const handleDelete = (stamp: PoseStamp) => {
+        if (!window.confirm(`Delete the pose "${stamp.name}" from the library?`)) return;
+        onDelete(stamp);
+    };
+
+    return (
+        <div className="mt-4 bg-[#0D1117] p-2 rounded-md border border-gray-700">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <span className="text-sm font-medium text-gray-300">Pose library</span>
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-1 text-xs text-gray-400" title="Otherwise stamps keep the colors they were saved with">
+                        <input type="checkbox" checked={useBrushColor} onChange={(e) => onUseBrushColorChange(e.target.checked)} />
+                        Use selected color
+                    </label>
+                    <button
+                        onClick={onSave}
+                        disabled={!canSave}
+                        title={canSave ? 'Save the selection as a reusable pose' : 'Select something with the lasso (S) first'}
+                        className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        + Save selection
+                    </button>
+                </div>
+            </div>
+            {stamps.length === 0 ? (
+                <p className="text-xs text-gray-500">Select strokes or figures with the lasso and save them here to stamp them into later sketches.</p>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    {stamps.map(stamp => (
+                        <div
+                            key={stamp.id}
+                            className={`relative w-24 flex flex-col rounded-md border ${stamp.id === activeStampId ? 'border-blue-500 bg-blue-600/20' : 'border-gray-700'}`}
+                        >
+                            <button onClick={() => onPick(stamp)} title="Pick this pose, then click the sketch to place it">
+                                <img src={previews.get(stamp.id)} alt={stamp.name} className="w-full aspect-square rounded-t-md" />
+                            </button>
+                            <button
+                                onClick={() => handleDelete(stamp)}
+                                title="Delete pose"
+                                className="absolute top-1 right-1 p-0.5 rounded-md bg-black/60 text-gray-400 hover:text-red-400 transition-colors"
+                            >
+                                <ClearIcon className="w-3 h-3" />
+                            </button>
+                            <input
+                                type="text"
+                                value={stamp.name}
+                                onChange={(e) => onRename(stamp, e.target.value)}
+                                className="w-full px-1 py-0.5 text-xs bg-transparent text-gray-200 focus:outline-none focus:border-b focus:border-blue-500"
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import { BUILT_IN_TEMPLATES, TEMPLATE_VARIABLES, buildPrompt, exportTemplates, getTemplate, importTemplates } from '../services/promptTemplates';
+import type { PromptContext, PromptTemplate, PromptTemplateSettings } from '../services/promptTemplates';
+
+interface PromptTemplatePanelProps {
+    settings: PromptTemplateSettings;
+    onChange: (settings: PromptTemplateSettings) => void;
+    /** Current inputs for the live preview. */
+    getContext: () => PromptContext;
+}
+
+const inputClasses = 'w-full bg-[#0D1117] border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors';
+const buttonClasses = 'px-2 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ settings, onChange, getContext }) => {
+    const [showPreview, setShowPreview] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const template = getTemplate([...BUILT_IN_TEMPLATES, ...settings.custom], settings.selectedId);
+
+    const updateTemplate = (update: Partial<PromptTemplate>) => onChange({
+        ...settings,
+        custom: settings.custom.map(item => item.id === template.id ? { ...item, ...update } : item),
+    });
+
+    const handleDuplicate = () => {
+        const copy: PromptTemplate = { ...template, id: crypto.randomUUID(), name: `${template.name} (copy)`, builtIn: false };
+        onChange({ selectedId: copy.id, custom: [...settings.custom, copy] });
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+        onChange({ selectedId: BUILT_IN_TEMPLATES[0].id, custom: settings.custom.filter(item => item.id !== template.id) });
+    };
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(new Blob([exportTemplates(settings.custom)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'prompt-templates.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = importTemplates(await file.text());
+            setImportError(null);
+            if (imported.length > 0) {
+                onChange({ selectedId: imported[0].id, custom: [...settings.custom, ...imported] });
+            }
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : 'Failed to import templates.');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-sm font-medium text-gray-300">Prompt Template</label>
+                <select
+                    value={template.id}
+                    onChange={(e) => onChange({ ...settings, selectedId: e.target.value })}
+                    className="bg-[#0D1117] border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500"
+                >
+                    <optgroup label="Presets">
+                        {BUILT_IN_TEMPLATES.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                    </optgroup>
+                    {settings.custom.length > 0 && (
+                        <optgroup label="My templates">
+                            {settings.custom.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                        </optgroup>
+                    )}
+                </select>
+                <button onClick={handleDuplicate} title="Copy this template to edit it" className={buttonClasses}>Duplicate</button>
+                {!template.builtIn && <button onClick={handleDelete} className={buttonClasses}>Delete</button>}
+                <button onClick={() => importInputRef.current?.click()} className={buttonClasses}>Import</button>
+                <button onClick={handleExport} disabled={settings.custom.length === 0} title="Export my templates" className={buttonClasses}>Export</button>
+                <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+            {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+            {template.builtIn ? (
+                <p className="text-xs text-gray-400">
+                    {template.style || 'No added style.'} Duplicate a preset to edit its text.
+                </p>
+            ) : (
+                <>
+                    <input value={template.name} onChange={(e) => updateTemplate({ name: e.target.value })} placeholder="Template name" className={inputClasses} />
+                    <input value={template.style} onChange={(e) => updateTemplate({ style: e.target.value })} placeholder="Style ({{style}})" className={inputClasses} />
+                    <input value={template.negative} onChange={(e) => updateTemplate({ negative: e.target.value })} placeholder="Negative instructions ({{negative}})" className={inputClasses} />
+                    <textarea value={template.body} onChange={(e) => updateTemplate({ body: e.target.value })} rows={10} className={`${inputClasses} font-mono text-xs`} />
+                    <p className="text-xs text-gray-400">
+                        Variables:{' '}
+                        {TEMPLATE_VARIABLES.map(variable => (
+                            <code key={variable.name} title={variable.description} className="mr-1 px-1 bg-gray-800 rounded">{`{{${variable.name}}}`}</code>
+                        ))}
+                        <br />
+                        Wrap text in <code>{'{{#name}}…{{/name}}'}</code> to keep it only when a variable is set, or <code>{'{{^name}}…{{/name}}'}</code> when it is empty.
+                    </p>
+                </>
+            )}
+
+            <button onClick={() => setShowPreview(prev => !prev)} className="self-start text-xs text-blue-400 hover:underline">
+                {showPreview ? 'Hide prompt preview' : 'Show prompt preview'}
+            </button>
+            {showPreview && (
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap bg-[#0D1117] border border-gray-700 rounded-md p-2 text-xs text-gray-300">
+                    {buildPrompt(template, getContext())}
+                </pre>
+            )}
+        </div>
+    );
+};
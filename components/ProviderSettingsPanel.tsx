@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { PROVIDER_OPTIONS } from '../services/providerRegistry';
+import type { ProviderSettings, ProviderId } from '../services/providerRegistry';
+import type { MockOutcome } from '../services/mockProvider';
+import type { RatioFit } from '../services/aspectRatio';
+import type { ApiKey } from '../services/apiKeyStore';
+import { GeminiSettingsDialog } from './GeminiSettingsDialog';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    apiKey: ApiKey | null;
+    onChange: (settings: ProviderSettings) => void;
+    onApiKeyChange: (apiKey: ApiKey | null) => void;
+}
+
+const MOCK_OUTCOMES: { value: MockOutcome; label: string }[] = [
+    { value: 'success', label: 'Success' },
+    { value: 'two-images', label: 'Two images' },
+    { value: 'no-image', label: 'No image' },
+    { value: 'safety', label: 'Safety block' },
+    { value: 'failure', label: 'Failure' },
+    { value: 'rate-limit', label: 'Rate limited' },
+    { value: 'flaky', label: 'Flaky (50% rate limited)' },
+];
+
+const selectClasses = 'bg-[#0D1117] border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500';
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, apiKey, onChange, onApiKeyChange }) => {
+    const [isGeminiDialogOpen, setIsGeminiDialogOpen] = useState(false);
+    const isMissingKey = settings.providerId === 'gemini' && settings.gemini.connection === 'key' && !apiKey;
+    const updateMock = (mock: Partial<ProviderSettings['mock']>) => onChange({ ...settings, mock: { ...settings.mock, ...mock } });
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+                Provider:
+                <select value={settings.providerId} onChange={(e) => onChange({ ...settings, providerId: e.target.value as ProviderId })} className={selectClasses}>
+                    {PROVIDER_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                </select>
+            </label>
+            {settings.providerId === 'gemini' && (
+                <button
+                    onClick={() => setIsGeminiDialogOpen(true)}
+                    title="API key or proxy server"
+                    className={`px-2 py-1 rounded-md transition-colors ${isMissingKey ? 'bg-yellow-600 hover:bg-yellow-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                    {isMissingKey ? 'Set API key' : settings.gemini.connection === 'proxy' ? 'Connection: proxy' : 'API key'}
+                </button>
+            )}
+            <label className="flex items-center gap-2" title="Requests that take longer are cancelled. 0 = no limit.">
+                Timeout (s):
+                <input
+                    type="number"
+                    min="0"
+                    step="10"
+                    value={settings.timeoutMs / 1000}
+                    onChange={(e) => onChange({ ...settings, timeoutMs: Math.max(0, parseInt(e.target.value) || 0) * 1000 })}
+                    className={`${selectClasses} w-20`}
+                />
+            </label>
+            <label className="flex items-center gap-2" title="What to do when a result does not have the sketch's aspect ratio">
+                Wrong ratio:
+                <select value={settings.ratioFit} onChange={(e) => onChange({ ...settings, ratioFit: e.target.value as RatioFit })} className={selectClasses}>
+                    <option value="crop">Crop to fit</option>
+                    <option value="pad">Pad with bars</option>
+                </select>
+            </label>
+            {settings.providerId === 'mock' && (
+                <>
+                    <label className="flex items-center gap-2">
+                        Latency (ms):
+                        <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={settings.mock.latencyMs}
+                            onChange={(e) => updateMock({ latencyMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className={`${selectClasses} w-24`}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Outcome:
+                        <select value={settings.mock.outcome} onChange={(e) => updateMock({ outcome: e.target.value as MockOutcome })} className={selectClasses}>
+                            {MOCK_OUTCOMES.map(outcome => <option key={outcome.value} value={outcome.value}>{outcome.label}</option>)}
+                        </select>
+                    </label>
+                </>
+            )}
+            {isGeminiDialogOpen && (
+                <GeminiSettingsDialog
+                    apiKey={apiKey}
+                    settings={settings.gemini}
+                    onApiKeyChange={onApiKeyChange}
+                    onSettingsChange={(gemini) => onChange({ ...settings, gemini })}
+                    onClose={() => setIsGeminiDialogOpen(false)}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,223 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { VersionTree } from '../services/versionTree';
+import { getChildVersions } from '../services/versionTree';
+import type { GenerationProgress, ProviderCapabilities } from '../services/imageProvider';
+import { EXPORT_FORMATS } from '../services/imageMetadata';
+import type { ExportFormat } from '../services/imageMetadata';
+import { MaskCanvas } from './MaskCanvas';
+import type { MaskCanvasHandle } from './MaskCanvas';
+import { ErrorNotice } from './ErrorNotice';
+import { BrushIcon, EraserIcon, LoadingSpinner } from './icons';
+
+interface ResultModalProps {
+    tree: VersionTree;
+    capabilities: ProviderCapabilities;
+    isRefining: boolean;
+    /** What the running refinement has streamed so far. */
+    refineProgress: GenerationProgress | null;
+    refineError: Error | string | null;
+    onSelectVersion: (id: string) => void;
+    onRefine: (instruction: string) => void;
+    onInpaint: (mask: string, instruction: string) => void;
+    onCancelRefine: () => void;
+    /** Downloads the current version with its generation settings embedded. Quality is 0..1. */
+    onExport?: (format: ExportFormat, quality: number) => Promise<void>;
+    onClose: () => void;
+}
+
+interface VersionListProps {
+    tree: VersionTree;
+    parentId: string;
+    depth: number;
+    onSelectVersion: (id: string) => void;
+}
+
+const VersionList: React.FC<VersionListProps> = ({ tree, parentId, depth, onSelectVersion }) => (
+    <>
+        {getChildVersions(tree, parentId).map(node => (
+            <React.Fragment key={node.id}>
+                <VersionButton tree={tree} id={node.id} depth={depth} onSelectVersion={onSelectVersion} />
+                <VersionList tree={tree} parentId={node.id} depth={depth + 1} onSelectVersion={onSelectVersion} />
+            </React.Fragment>
+        ))}
+    </>
+);
+
+const VersionButton: React.FC<{ tree: VersionTree; id: string; depth: number; onSelectVersion: (id: string) => void }> = ({ tree, id, depth, onSelectVersion }) => {
+    const node = tree.nodes[id];
+    const isCurrent = tree.currentId === id;
+    return (
+        <button
+            onClick={() => onSelectVersion(id)}
+            style={{ marginLeft: depth * 12 }}
+            className={`flex items-center gap-2 p-1 rounded-md text-left text-xs transition-colors ${isCurrent ? 'bg-blue-600/40 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+        >
+            <img src={node.image} alt="" className="w-10 h-10 object-cover rounded flex-shrink-0" />
+            <span className="line-clamp-2">{node.instruction ?? 'Original'}</span>
+        </button>
+    );
+};
+
+export const ResultModal: React.FC<ResultModalProps> = ({ tree, capabilities, isRefining, refineProgress, refineError, onSelectVersion, onRefine, onInpaint, onCancelRefine, onExport, onClose }) => {
+    const [instruction, setInstruction] = useState('');
+    const modes = (['refine', 'inpaint'] as const).filter(option => capabilities[option]);
+    const [mode, setMode] = useState<'refine' | 'inpaint'>(modes[0] ?? 'refine');
+    const [maskTool, setMaskTool] = useState<'brush' | 'eraser'>('brush');
+    const [maskBrushSize, setMaskBrushSize] = useState(30);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [showBefore, setShowBefore] = useState(false);
+    const maskRef = useRef<MaskCanvasHandle>(null);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+    const [exportQuality, setExportQuality] = useState(0.92);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const current = tree.nodes[tree.currentId];
+    const parent = current.parentId ? tree.nodes[current.parentId] : null;
+    const displayed = showBefore && parent ? parent : current;
+
+    useEffect(() => {
+        setShowBefore(false);
+        maskRef.current?.clear();
+    }, [tree.currentId]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!instruction.trim() || isRefining) return;
+        if (mode === 'inpaint') {
+            const mask = maskRef.current?.hasMask() ? maskRef.current.getMaskData() : null;
+            if (!mask) {
+                alert('Paint over the area you want to change first.');
+                return;
+            }
+            onInpaint(mask, instruction.trim());
+        } else {
+            onRefine(instruction.trim());
+        }
+        setInstruction('');
+    };
+
+    const handleExport = async () => {
+        if (!onExport) return;
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            await onExport(exportFormat, exportQuality);
+        } catch (e) {
+            console.error(e);
+            setExportError(e instanceof Error ? e.message : 'Failed to export the image.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="relative bg-[#161B22] p-4 rounded-lg border border-gray-700 max-w-6xl max-h-[90vh] flex gap-4" onClick={(e) => e.stopPropagation()}>
+                <div className="flex flex-col gap-3 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                        {modes.map(option => (
+                            <button key={option} onClick={() => setMode(option)} className={`px-3 py-1 text-sm rounded-md transition-colors ${mode === option ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`}>
+                                {option === 'refine' ? 'Refine Whole Image' : 'Edit Region'}
+                            </button>
+                        ))}
+                        {mode === 'inpaint' && (
+                            <>
+                                <button onClick={() => setMaskTool('brush')} title="Paint mask" className={`p-1 rounded-md ${maskTool === 'brush' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                                    <BrushIcon className="w-5 h-5" />
+                                </button>
+                                <button onClick={() => setMaskTool('eraser')} title="Erase mask" className={`p-1 rounded-md ${maskTool === 'eraser' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                                    <EraserIcon className="w-5 h-5" />
+                                </button>
+                                <input type="range" min="5" max="100" value={maskBrushSize} onChange={(e) => setMaskBrushSize(parseInt(e.target.value))} className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                                <button onClick={() => maskRef.current?.undo()} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Undo</button>
+                                <button onClick={() => maskRef.current?.clear()} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Clear Mask</button>
+                            </>
+                        )}
+                        {parent && (
+                            <button
+                                onClick={() => setShowBefore(prev => !prev)}
+                                className={`ml-auto px-3 py-1 text-sm rounded-md transition-colors ${showBefore ? 'bg-yellow-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`}
+                            >
+                                {showBefore ? 'Showing Before' : 'Showing After'}
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="relative inline-block self-center">
+                        <img
+                            src={displayed.image}
+                            alt="Generated result"
+                            className="block max-w-full max-h-[65vh] object-contain rounded-md"
+                            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        />
+                        {mode === 'inpaint' && imageSize && (
+                            <div className={showBefore ? 'hidden' : ''}>
+                                <MaskCanvas ref={maskRef} width={imageSize.width} height={imageSize.height} tool={maskTool} brushSize={maskBrushSize} />
+                            </div>
+                        )}
+                    </div>
+
+                    {displayed.text && <p className="max-w-2xl text-sm text-gray-400 italic whitespace-pre-wrap max-h-24 overflow-y-auto">{displayed.text}</p>}
+
+                    {modes.length > 0 && <form onSubmit={handleSubmit} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            placeholder={mode === 'inpaint' ? 'Describe the change for the painted area, e.g. fix the left hand...' : 'Refine this version, e.g. make the sword longer...'}
+                            className="flex-grow bg-[#0D1117] border border-gray-600 rounded-md p-2 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isRefining || !instruction.trim()}
+                            className="px-4 py-2 text-sm font-bold text-white rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                        >
+                            {isRefining ? <><LoadingSpinner /> Editing...</> : mode === 'inpaint' ? 'Edit Region' : 'Refine'}
+                        </button>
+                        {isRefining && (
+                            <button type="button" onClick={onCancelRefine} className="px-4 py-2 text-sm font-bold text-gray-200 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                                Cancel
+                            </button>
+                        )}
+                    </form>}
+                    {isRefining && refineProgress?.text && (
+                        <p className="max-w-2xl text-sm text-gray-300 italic whitespace-pre-wrap max-h-24 overflow-y-auto">{refineProgress.text}</p>
+                    )}
+                    {refineError && <ErrorNotice error={refineError} />}
+                </div>
+
+                <div className="w-56 flex-shrink-0 flex flex-col gap-1 overflow-y-auto border-l border-gray-700 pl-4">
+                    <h3 className="text-sm font-semibold text-blue-400 mb-1">Versions</h3>
+                    <VersionButton tree={tree} id={tree.rootId} depth={0} onSelectVersion={onSelectVersion} />
+                    <VersionList tree={tree} parentId={tree.rootId} depth={1} onSelectVersion={onSelectVersion} />
+                    {onExport && (
+                        <div className="mt-auto pt-3 flex flex-col gap-2 border-t border-gray-700 text-xs text-gray-300">
+                            <h3 className="text-sm font-semibold text-blue-400">Export</h3>
+                            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} className="px-2 py-1 bg-gray-700 rounded-md">
+                                {EXPORT_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+                            </select>
+                            {EXPORT_FORMATS.find(format => format.id === exportFormat)?.lossy && (
+                                <label className="flex items-center gap-2">
+                                    Quality {Math.round(exportQuality * 100)}
+                                    <input type="range" min="0.5" max="1" step="0.01" value={exportQuality} onChange={(e) => setExportQuality(parseFloat(e.target.value))} className="flex-grow h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                                </label>
+                            )}
+                            <button
+                                onClick={handleExport}
+                                disabled={isExporting}
+                                title="Download this version with its prompts and settings embedded; drop it back into the app to restore them"
+                                className="px-3 py-1 text-sm font-bold text-white rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+                            >
+                                {isExporting ? <><LoadingSpinner /> Exporting...</> : 'Download'}
+                            </button>
+                            {exportError && <p className="text-red-400">{exportError}</p>}
+                        </div>
+                    )}
+                </div>
+
+                <button onClick={onClose} className="absolute -top-3 -right-3 text-white bg-red-600 rounded-full w-8 h-8 flex items-center justify-center font-bold text-xl">&times;</button>
+            </div>
+        </div>
+    );
+};
@@ -1,124 +1,945 @@
 
-import React, { useState, useRef, useCallback, useImperativeHandle, forwardRef } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo, useImperativeHandle, forwardRef } from 'react';
 import type { AspectRatio } from '../App';
-import { BrushIcon, EraserIcon, UndoIcon, ClearIcon } from './icons';
+import { BrushIcon, EraserIcon, SkeletonIcon, HandIcon } from './icons';
+import { LayerPanel } from './LayerPanel';
+import { PoseLibraryPanel } from './PoseLibraryPanel';
+import { createSkeleton, hitTestKeypoint, mirrorSkeleton, moveKeypoint, transformSkeleton, toOpenPoseJson, fromOpenPoseJson } from '../services/skeleton';
+import type { Skeleton } from '../services/skeleton';
+import { createShape, hitTestShape, hitTestShapeHandle, moveShape, resizeShape, toggleShapeDirection, getShapeBounds } from '../services/shapes';
+import type { DirectionKind, Shape, ShapeHandle, ShapeKind } from '../services/shapes';
+import { DEFAULT_UNDERLAY, drawUnderlay } from '../services/underlay';
+import type { UnderlayFit, UnderlaySettings, UnderlaySource } from '../services/underlay';
+import { createLayer, fitLayerToCanvas, isLayerEmpty, normalizeLayer, renderLayers, toCanvasLayer, toRelativeLayer, updateLayer } from '../services/sketchLayers';
+import type { LayerGeometry, RatioChangeMode, SketchLayer } from '../services/sketchLayers';
+import {
+    IDENTITY_TRANSFORM,
+    appendGeometry,
+    drawSelection,
+    drawSelectionArea,
+    getBoundsCenter,
+    getBoxArea,
+    getDragTransform,
+    getGeometryBounds,
+    getSelectedGeometry,
+    hitTestSelection,
+    recolorGeometry,
+    removeSelection,
+    replaceSelection,
+    selectInArea,
+    transformGeometry,
+} from '../services/sketchSelection';
+import type { SelectionHandle, SketchSelection } from '../services/sketchSelection';
+import { createPoseStamp, loadPoseStamps, placePoseStamp, savePoseStamps } from '../services/poseLibrary';
+import type { PoseStamp } from '../services/poseLibrary';
+import { ASPECT_RATIO_PRESETS, getAspectRatioFor, getCanvasSize, getRatioValue, isAspectRatio } from '../services/aspectRatio';
+import { SKETCH_COLORS } from '../services/sketchColors';
+import { createSketchSvg, parseSketchSvg } from '../services/sketchSvg';
+
+export interface SketchCharacter {
+    id: string;
+    name: string;
+    color: string;
+}
 
 interface SketchPadProps {
     aspectRatio: AspectRatio;
     setAspectRatio: (ratio: AspectRatio) => void;
+    characters?: SketchCharacter[];
+    /** The scene background, offered as a trace-over underlay. */
+    bgImage?: File | null;
 }
 
-interface Point {
+export interface Point {
     x: number;
     y: number;
+    pressure?: number; // 0..1, only recorded for pen input
 }
 
-interface Stroke {
+export interface Stroke {
     points: Point[];
     color: string;
     width: number;
     tool: 'brush' | 'eraser';
 }
 
-const ASPECT_RATIO_MAP: { [key in AspectRatio]: number } = {
-    '1:1': 1,
-    '2:3': 2 / 3,
-    '3:2': 3 / 2,
-};
+export interface SketchPadHandle {
+    getCanvasData: () => string | null;
+    /** Layers in relative coordinates (see toRelativeLayer), independent of the canvas size. */
+    getLayers: () => SketchLayer[];
+    /** Replaces the sketch with relative layers drawn for `aspectRatio`, which the parent is about to switch to. */
+    setLayers: (layers: SketchLayer[], aspectRatio: AspectRatio) => void;
+}
+
+// 'select' edits shapes one at a time; 'lasso' selects any mix of marks; 'stamp' places a pose from the library.
+type Tool = 'brush' | 'eraser' | 'skeleton' | 'pan' | 'select' | 'lasso' | 'stamp' | ShapeKind;
+
+type LayerContent = Pick<SketchLayer, 'strokes' | 'shapes' | 'skeletons'>;
+
+const getLayerContent = ({ strokes, shapes, skeletons }: SketchLayer): LayerContent => ({ strokes, shapes, skeletons });
+
+interface UndoStack {
+    past: LayerContent[];
+    future: LayerContent[];
+}
+
+interface ViewTransform {
+    zoom: number;
+    x: number;
+    y: number;
+}
+
+const JOINT_HIT_RADIUS = 14;
+const SHAPE_HIT_TOLERANCE = 8;
+// Shapes smaller than this (in canvas pixels) are treated as accidental clicks.
+const MIN_SHAPE_SIZE = 4;
+const SELECTION_HANDLE_SIZE = 12;
+// Each paste lands this far down and right of the previous one.
+const PASTE_OFFSET = 20;
+
+const SHAPE_TOOLS: { kind: ShapeKind; label: string; title: string }[] = [
+    { kind: 'line', label: '╱', title: 'Line (L)' },
+    { kind: 'rectangle', label: '▭', title: 'Rectangle (R)' },
+    { kind: 'ellipse', label: '◯', title: 'Ellipse (O)' },
+    { kind: 'arrow', label: '→', title: 'Arrow (A)' },
+    { kind: 'placement', label: '⬚', title: 'Placement box: where a character goes and how big (M)' },
+];
+
+const SHAPE_SHORTCUTS: { [key: string]: ShapeKind } = { l: 'line', r: 'rectangle', o: 'ellipse', a: 'arrow', m: 'placement' };
+// Focused elements that Space activates; holding Space only pans elsewhere.
+const INTERACTIVE_SELECTOR = 'button, a[href], input, select, textarea, summary, [role="button"], [role="checkbox"]';
+
+const isShapeTool = (tool: Tool): tool is ShapeKind => SHAPE_TOOLS.some(item => item.kind === tool);
+const MAX_UNDO_STEPS = 100;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+const DEFAULT_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+// Touches within this long after pen input, or wider than this many CSS pixels, are treated as a resting palm.
+const PALM_REJECTION_MS = 1000;
+const PALM_CONTACT_SIZE = 40;
 
-export const SketchPad = forwardRef<{ getCanvasData: () => string | null }, SketchPadProps>(({ aspectRatio, setAspectRatio }, ref) => {
+const createSceneLayer = () => createLayer('Scene / Notes');
+
+export const SketchPad = forwardRef<SketchPadHandle, SketchPadProps>(({ aspectRatio, setAspectRatio, characters = [], bgImage = null }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [isDrawing, setIsDrawing] = useState(false);
-    const [strokes, setStrokes] = useState<Stroke[]>([]);
+    const [layers, setLayers] = useState<SketchLayer[]>(() => [createSceneLayer()]);
+    const [activeLayerId, setActiveLayerId] = useState<string>(() => layers[0].id);
     const [currentPath, setCurrentPath] = useState<Stroke | null>(null);
+    const [selectedSkeletonId, setSelectedSkeletonId] = useState<string | null>(null);
+    const [skeletonDrag, setSkeletonDrag] = useState<{ id: string; joint: number | 'all'; last: Point } | null>(null);
+    const [currentShape, setCurrentShape] = useState<Shape | null>(null);
+    const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null);
+    const [shapeDrag, setShapeDrag] = useState<{ id: string; handle: ShapeHandle | 'move'; last: Point } | null>(null);
+    const [selection, setSelection] = useState<SketchSelection | null>(null);
+    const [selectionMode, setSelectionMode] = useState<'lasso' | 'box'>('lasso');
+    // The lasso path, or the two corners of the box, being dragged out.
+    const [selectionArea, setSelectionArea] = useState<Point[] | null>(null);
+    // Transforms are applied to the geometry as it was when the drag started, so they do not accumulate rounding.
+    const [selectionDrag, setSelectionDrag] = useState<{ handle: SelectionHandle; start: Point; pivot: Point; original: LayerGeometry } | null>(null);
+    const [clipboard, setClipboard] = useState<LayerGeometry | null>(null);
+    const [stamps, setStamps] = useState<PoseStamp[]>(loadPoseStamps);
+    const [activeStampId, setActiveStampId] = useState<string | null>(null);
+    const [stampInBrushColor, setStampInBrushColor] = useState(true);
+    const poseInputRef = useRef<HTMLInputElement>(null);
+    const svgInputRef = useRef<HTMLInputElement>(null);
+    const [undoStacks, setUndoStacks] = useState<{ [layerId: string]: UndoStack }>({});
+
+    const rootRef = useRef<HTMLDivElement>(null);
+    const isPointerOverRef = useRef(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [view, setView] = useState<ViewTransform>(DEFAULT_VIEW);
+    const viewRef = useRef<ViewTransform>(DEFAULT_VIEW);
+    const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+    const activePointerRef = useRef<number | null>(null);
+    const panRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number } | null>(null);
+    const lastPenTimeRef = useRef(0);
+    // The layer a drag in progress changes, until its undo step is recorded.
+    const pendingUndoRef = useRef<string | null>(null);
+
+    const [underlay, setUnderlay] = useState<UnderlaySettings>(DEFAULT_UNDERLAY);
+    const [customUnderlay, setCustomUnderlay] = useState<File | null>(null);
+    const [underlayImage, setUnderlayImage] = useState<HTMLImageElement | null>(null);
+    const [matchUnderlayRatio, setMatchUnderlayRatio] = useState(false);
+    const [ratioChangeMode, setRatioChangeMode] = useState<RatioChangeMode>('rescale');
+    const [isCustomRatio, setIsCustomRatio] = useState(false);
+    const [customRatio, setCustomRatio] = useState(() => aspectRatio.split(':'));
+    const underlayInputRef = useRef<HTMLInputElement>(null);
 
-    const [activeTool, setActiveTool] = useState<'brush' | 'eraser'>('brush');
+    const [activeTool, setActiveTool] = useState<Tool>('brush');
     const [brushColor, setBrushColor] = useState('#EF4444'); // Red
     const [brushSize, setBrushSize] = useState(5);
     const [eraserSize, setEraserSize] = useState(20);
 
-    const colors = [
-        { name: 'Red', value: '#EF4444' },
-        { name: 'Blue', value: '#3B82F6' },
-        { name: 'Green', value: '#22C55E' },
-        { name: 'White', value: '#FFFFFF' },
-    ];
+    const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? layers[layers.length - 1];
+    const skeletons = layers.flatMap(layer => layer.skeletons);
+    const isEditingShapes = activeTool === 'select' || isShapeTool(activeTool);
+    const selectedShape = selectedShapeId ? layers.flatMap(layer => layer.shapes).find(shape => shape.id === selectedShapeId) : undefined;
+    const selectionLayer = selection ? layers.find(layer => layer.id === selection.layerId) : undefined;
+    const selectedGeometry = useMemo(() => selection && selectionLayer ? getSelectedGeometry(selectionLayer, selection) : null, [selection, selectionLayer]);
+    const selectionBounds = useMemo(() => selectedGeometry && getGeometryBounds(selectedGeometry), [selectedGeometry]);
+    const activeStamp = stamps.find(stamp => stamp.id === activeStampId);
+    const colorLabelKey = characters.map(character => `${character.color}:${character.name}`).join();
+    const colorLabels = useMemo(
+        () => Object.fromEntries(characters.map((character, index) => [character.color, character.name || `Character ${index + 1}`])),
+        [colorLabelKey],
+    );
+
+    // Keep one layer per character: add layers for new characters and drop
+    // empty ones whose character was removed.
+    useEffect(() => {
+        setLayers(prev => {
+            const characterIds = characters.map(character => character.id);
+            let next = prev.filter(layer => !layer.characterId || characterIds.includes(layer.characterId) || !isLayerEmpty(layer));
+            next = next.map(layer => layer.characterId && !characterIds.includes(layer.characterId)
+                ? { ...layer, characterId: null, name: layer.name || 'Unassigned' }
+                : layer);
+            characters.forEach(character => {
+                if (next.some(layer => layer.characterId === character.id)) return;
+                const insertAt = next.reduce((index, layer, i) => layer.characterId ? i + 1 : index, 0);
+                next = [...next.slice(0, insertAt), createLayer('', character.id), ...next.slice(insertAt)];
+            });
+            return next;
+        });
+    }, [characters.map(character => character.id).join()]);
+
+    useEffect(() => {
+        if (!layers.some(layer => layer.id === activeLayerId) && layers.length > 0) {
+            setActiveLayerId(layers[layers.length - 1].id);
+        }
+    }, [layers, activeLayerId]);
+
+    // A selection belongs to the lasso tool and the active layer.
+    useEffect(() => {
+        if (activeTool !== 'lasso' || selection?.layerId !== activeLayer?.id) setSelection(null);
+        if (activeTool !== 'stamp') setActiveStampId(null);
+    }, [activeTool, activeLayer?.id]);
 
-    const getCanvasCoordinates = (e: React.MouseEvent | React.TouchEvent): Point => {
+    const getLayerName = (layer: SketchLayer) => {
+        if (layer.name) return layer.name;
+        const index = characters.findIndex(character => character.id === layer.characterId);
+        return index === -1 ? 'Layer' : characters[index].name || `Character ${index + 1}`;
+    };
+
+    const handleSelectColor = (color: string) => {
+        setBrushColor(color);
+        // With a selection, a color recolors it instead.
+        if (activeTool === 'lasso' && selection) {
+            updateSelection(geometry => recolorGeometry(geometry, color));
+            return;
+        }
+        if (!isShapeTool(activeTool) && activeTool !== 'stamp') setActiveTool('brush');
+        // Drawing in a character's color switches to that character's layer.
+        const character = characters.find(item => item.color === color);
+        const layer = character && layers.find(item => item.characterId === character.id);
+        if (layer) setActiveLayerId(layer.id);
+    };
+
+    const getCanvasCoordinates = (e: { clientX: number; clientY: number }): Point => {
         const canvas = canvasRef.current;
         if (!canvas) return { x: 0, y: 0 };
 
+        // The rect already reflects zoom and pan, so this maps screen pixels
+        // straight to the canvas's internal resolution.
         const rect = canvas.getBoundingClientRect();
-        const touch = 'touches' in e ? e.touches[0] : e;
-
         return {
-            x: touch.clientX - rect.left,
-            y: touch.clientY - rect.top,
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
         };
     };
+
+    // Only pens report meaningful pressure; mouse and touch strokes keep a constant width.
+    const getPointerPoint = (e: PointerEvent | React.PointerEvent): Point => {
+        const point = getCanvasCoordinates(e);
+        return e.pointerType === 'pen' ? { ...point, pressure: e.pressure } : point;
+    };
     
+    const underlayFile = underlay.source === 'background' ? bgImage : underlay.source === 'custom' ? customUnderlay : null;
+
+    useEffect(() => {
+        setUnderlayImage(null);
+        if (!underlayFile) return;
+        const url = URL.createObjectURL(underlayFile);
+        const image = new Image();
+        image.onload = () => setUnderlayImage(image);
+        image.src = url;
+        return () => URL.revokeObjectURL(url);
+    }, [underlayFile]);
+
+    /** Switches the canvas to another ratio, carrying the sketch (and its undo history) over by `ratioChangeMode`. */
+    const handleAspectRatioChange = (next: AspectRatio) => {
+        if (next === aspectRatio) return;
+        const from = getCanvasSize(aspectRatio);
+        const to = getCanvasSize(next);
+        const fit = <T extends LayerContent>(content: T) => fitLayerToCanvas(content, from, to, ratioChangeMode);
+        setCurrentPath(null);
+        setCurrentShape(null);
+        setIsDrawing(false);
+        pendingUndoRef.current = null;
+        setSkeletonDrag(null);
+        setShapeDrag(null);
+        setSelectionArea(null);
+        setSelectionDrag(null);
+        setLayers(prev => prev.map(fit));
+        setUndoStacks(prev => Object.fromEntries(Object.entries(prev).map(([id, stack]: [string, UndoStack]) => [id, { past: stack.past.map(fit), future: stack.future.map(fit) }])));
+        setAspectRatio(next);
+    };
+
+    useEffect(() => {
+        if (matchUnderlayRatio && underlayImage) {
+            handleAspectRatioChange(getAspectRatioFor(underlayImage.naturalWidth, underlayImage.naturalHeight));
+        }
+    }, [matchUnderlayRatio, underlayImage]);
+
+    const customRatioValue = `${customRatio[0]}:${customRatio[1]}`;
+    // Extreme ratios make an unusable canvas and no model produces them.
+    const isCustomRatioValid = isAspectRatio(customRatioValue) && getRatioValue(customRatioValue) >= 0.25 && getRatioValue(customRatioValue) <= 4;
+
+    const updateUnderlay = (update: Partial<UnderlaySettings>) => setUnderlay(prev => ({ ...prev, ...update }));
+
+    const handleUnderlaySourceChange = (source: UnderlaySource) => {
+        updateUnderlay({ source });
+        if (source === 'custom' && !customUnderlay) underlayInputRef.current?.click();
+    };
+
+    const handleUnderlayFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setCustomUnderlay(file);
+        updateUnderlay({ source: 'custom' });
+    };
+
     const draw = useCallback(() => {
         const canvas = canvasRef.current;
         const ctx = canvas?.getContext('2d');
         if (!ctx || !canvas) return;
 
         ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        [...strokes, currentPath].forEach(stroke => {
-            if (!stroke || stroke.points.length === 0) return;
-            
-            ctx.beginPath();
-            ctx.strokeStyle = stroke.color;
-            ctx.lineWidth = stroke.width;
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-            ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
-
-            ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-            stroke.points.forEach(point => ctx.lineTo(point.x, point.y));
-            ctx.stroke();
+        if (underlayImage) drawUnderlay(ctx, underlayImage, underlay);
+        renderLayers(ctx, layers, {
+            activeLayerId: activeLayer?.id,
+            currentPath,
+            currentShape,
+            selectedSkeletonId: activeTool === 'skeleton' ? selectedSkeletonId : null,
+            selectedShapeId: isEditingShapes ? selectedShapeId : null,
+            placementLabels: colorLabels,
         });
-        
-        ctx.globalCompositeOperation = 'source-over';
-    }, [strokes, currentPath]);
+        if (selectionBounds) drawSelection(ctx, selectionBounds, SELECTION_HANDLE_SIZE);
+        if (selectionArea) drawSelectionArea(ctx, selectionMode === 'box' ? getBoxArea(selectionArea[0], selectionArea[selectionArea.length - 1]) : selectionArea);
+    }, [layers, activeLayer, currentPath, currentShape, selectedSkeletonId, selectedShapeId, isEditingShapes, activeTool, colorLabels, underlayImage, underlay, selectionBounds, selectionArea, selectionMode]);
 
     React.useEffect(() => {
         draw();
     }, [draw]);
 
-    const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
-        setIsDrawing(true);
+    const recordUndo = (layerIds: string[]) => {
+        setUndoStacks(prev => {
+            const next = { ...prev };
+            layerIds.forEach(id => {
+                const layer = layers.find(item => item.id === id);
+                if (!layer) return;
+                const stack = prev[id] ?? { past: [], future: [] };
+                next[id] = { past: [...stack.past, getLayerContent(layer)].slice(-MAX_UNDO_STEPS), future: [] };
+            });
+            return next;
+        });
+    };
+
+    // Drags record their undo step on the first movement, so a click that
+    // changes nothing leaves no step and keeps the redo stack.
+    const recordPendingUndo = () => {
+        if (!pendingUndoRef.current) return;
+        recordUndo([pendingUndoRef.current]);
+        pendingUndoRef.current = null;
+    };
+
+    /** Applies an undoable content change to the given layers. */
+    const commitLayers = (layerIds: string[], update: (layer: SketchLayer) => SketchLayer) => {
+        if (layerIds.length === 0) return;
+        recordUndo(layerIds);
+        setLayers(prev => prev.map(layer => layerIds.includes(layer.id) ? update(layer) : layer));
+    };
+
+    const updateActiveLayer = (update: (layer: SketchLayer) => SketchLayer) => {
+        if (!activeLayer || activeLayer.locked) return;
+        commitLayers([activeLayer.id], update);
+    };
+
+    const findSkeletonLayer = (skeletonId: string) => layers.find(layer => layer.skeletons.some(skeleton => skeleton.id === skeletonId));
+
+    const updateSkeleton = (id: string, update: (skeleton: Skeleton) => Skeleton) => {
+        setLayers(prev => prev.map(layer => layer.skeletons.some(skeleton => skeleton.id === id)
+            ? { ...layer, skeletons: layer.skeletons.map(skeleton => skeleton.id === id ? update(skeleton) : skeleton) }
+            : layer));
+    };
+
+    const handleUndo = () => {
+        if (!activeLayer || activeLayer.locked) return;
+        const stack = undoStacks[activeLayer.id];
+        if (!stack || stack.past.length === 0) return;
+        const previous = stack.past[stack.past.length - 1];
+        setUndoStacks(prev => ({
+            ...prev,
+            [activeLayer.id]: { past: stack.past.slice(0, -1), future: [...stack.future, getLayerContent(activeLayer)] },
+        }));
+        setLayers(prev => updateLayer(prev, activeLayer.id, layer => ({ ...layer, ...previous })));
+        setSelectedSkeletonId(null);
+        setSelection(null);
+    };
+
+    const handleRedo = () => {
+        if (!activeLayer || activeLayer.locked) return;
+        const stack = undoStacks[activeLayer.id];
+        if (!stack || stack.future.length === 0) return;
+        const next = stack.future[stack.future.length - 1];
+        setUndoStacks(prev => ({
+            ...prev,
+            [activeLayer.id]: { past: [...stack.past, getLayerContent(activeLayer)], future: stack.future.slice(0, -1) },
+        }));
+        setLayers(prev => updateLayer(prev, activeLayer.id, layer => ({ ...layer, ...next })));
+        setSelectedSkeletonId(null);
+        setSelection(null);
+    };
+
+    const activeStack = activeLayer ? undoStacks[activeLayer.id] : undefined;
+    const canUndo = !!activeStack && activeStack.past.length > 0;
+    const canRedo = !!activeStack && activeStack.future.length > 0;
+
+    const handleSkeletonDown = (e: React.PointerEvent) => {
+        const point = getCanvasCoordinates(e);
+        // Search topmost figures first, skipping hidden and locked layers.
+        const editable = layers.filter(layer => layer.visible && !layer.locked);
+        for (const layer of [...editable].reverse()) {
+            for (const skeleton of [...layer.skeletons].reverse()) {
+                const joint = hitTestKeypoint(skeleton, point, JOINT_HIT_RADIUS);
+                if (joint !== -1) {
+                    pendingUndoRef.current = layer.id;
+                    setSelectedSkeletonId(skeleton.id);
+                    setSkeletonDrag({ id: skeleton.id, joint: e.shiftKey ? 'all' : joint, last: point });
+                    return true;
+                }
+            }
+        }
+        setSelectedSkeletonId(null);
+        return false;
+    };
+
+    const handleSkeletonMove = (e: React.PointerEvent) => {
+        if (!skeletonDrag) return;
+        const point = getCanvasCoordinates(e);
+        const { id, joint, last } = skeletonDrag;
+        if (point.x === last.x && point.y === last.y) return;
+        recordPendingUndo();
+        updateSkeleton(id, skeleton => joint === 'all'
+            ? transformSkeleton(skeleton, { dx: point.x - last.x, dy: point.y - last.y })
+            : moveKeypoint(skeleton, joint, point));
+        setSkeletonDrag({ ...skeletonDrag, last: point });
+    };
+
+    const handleAddSkeleton = () => {
+        const canvas = canvasRef.current;
+        if (!canvas || !activeLayer || activeLayer.locked) return;
+        const skeleton = createSkeleton({ x: canvas.width / 2, y: canvas.height / 2 }, canvas.height * 0.6, brushColor);
+        updateActiveLayer(layer => ({ ...layer, skeletons: [...layer.skeletons, skeleton] }));
+        setSelectedSkeletonId(skeleton.id);
+        setActiveTool('skeleton');
+    };
+
+    const handleTransformSelected = (update: (skeleton: Skeleton) => Skeleton) => {
+        const layer = selectedSkeletonId ? findSkeletonLayer(selectedSkeletonId) : undefined;
+        if (!layer || layer.locked) return;
+        commitLayers([layer.id], item => ({ ...item, skeletons: item.skeletons.map(skeleton => skeleton.id === selectedSkeletonId ? update(skeleton) : skeleton) }));
+    };
+
+    const handleDeleteSelected = () => {
+        const layer = selectedSkeletonId ? findSkeletonLayer(selectedSkeletonId) : undefined;
+        if (!layer || layer.locked) return;
+        commitLayers([layer.id], item => ({ ...item, skeletons: item.skeletons.filter(skeleton => skeleton.id !== selectedSkeletonId) }));
+        setSelectedSkeletonId(null);
+    };
+
+    const findShapeLayer = (shapeId: string) => layers.find(layer => layer.shapes.some(shape => shape.id === shapeId));
+
+    const updateShape = (id: string, update: (shape: Shape) => Shape) => {
+        setLayers(prev => prev.map(layer => layer.shapes.some(shape => shape.id === id)
+            ? { ...layer, shapes: layer.shapes.map(shape => shape.id === id ? update(shape) : shape) }
+            : layer));
+    };
+
+    const handleSelectDown = (e: React.PointerEvent) => {
+        const point = getCanvasCoordinates(e);
+        const editable = layers.filter(layer => layer.visible && !layer.locked);
+        // The selected shape's handles take priority over shapes underneath.
+        const selectedLayer = selectedShape && editable.find(layer => layer.shapes.includes(selectedShape));
+        const handle = selectedLayer ? hitTestShapeHandle(selectedShape, point, SHAPE_HIT_TOLERANCE) : null;
+        if (selectedLayer && handle) {
+            pendingUndoRef.current = selectedLayer.id;
+            setShapeDrag({ id: selectedShape.id, handle, last: point });
+            return true;
+        }
+        for (const layer of [...editable].reverse()) {
+            const shape = [...layer.shapes].reverse().find(item => hitTestShape(item, point, SHAPE_HIT_TOLERANCE));
+            if (shape) {
+                pendingUndoRef.current = layer.id;
+                setSelectedShapeId(shape.id);
+                setShapeDrag({ id: shape.id, handle: 'move', last: point });
+                return true;
+            }
+        }
+        setSelectedShapeId(null);
+        return false;
+    };
+
+    const handleSelectMove = (e: React.PointerEvent) => {
+        if (!shapeDrag) return;
+        const point = getCanvasCoordinates(e);
+        const { id, handle, last } = shapeDrag;
+        if (point.x === last.x && point.y === last.y) return;
+        recordPendingUndo();
+        updateShape(id, shape => handle === 'move'
+            ? moveShape(shape, point.x - last.x, point.y - last.y)
+            : resizeShape(shape, handle, point));
+        setShapeDrag({ ...shapeDrag, last: point });
+    };
+
+    const handleUpdateSelectedShape = (update: (shape: Shape) => Shape) => {
+        const layer = selectedShapeId ? findShapeLayer(selectedShapeId) : undefined;
+        if (!layer || layer.locked) return;
+        commitLayers([layer.id], item => ({ ...item, shapes: item.shapes.map(shape => shape.id === selectedShapeId ? update(shape) : shape) }));
+    };
+
+    const handleDeleteSelectedShape = () => {
+        const layer = selectedShapeId ? findShapeLayer(selectedShapeId) : undefined;
+        if (!layer || layer.locked) return;
+        commitLayers([layer.id], item => ({ ...item, shapes: item.shapes.filter(shape => shape.id !== selectedShapeId) }));
+        setSelectedShapeId(null);
+    };
+
+    const handleLassoDown = (e: React.PointerEvent) => {
+        const point = getCanvasCoordinates(e);
+        const handle = selectionBounds ? hitTestSelection(selectionBounds, point, SELECTION_HANDLE_SIZE) : null;
+        if (selection && selectedGeometry && selectionBounds && handle && !selectionLayer?.locked) {
+            pendingUndoRef.current = selection.layerId;
+            setSelectionDrag({ handle, start: point, pivot: getBoundsCenter(selectionBounds), original: selectedGeometry });
+            return true;
+        }
+        setSelection(null);
+        if (!activeLayer || activeLayer.locked || !activeLayer.visible) return false;
+        setSelectionArea([point]);
+        return true;
+    };
+
+    const handleLassoMove = (e: React.PointerEvent) => {
         const point = getCanvasCoordinates(e);
+        if (selectionDrag && selection) {
+            const { handle, start, pivot, original } = selectionDrag;
+            if (point.x === start.x && point.y === start.y) return;
+            recordPendingUndo();
+            const transformed = transformGeometry(original, pivot, getDragTransform(handle, pivot, start, point, e.shiftKey));
+            setLayers(prev => updateLayer(prev, selection.layerId, layer => replaceSelection(layer, selection, transformed)));
+        } else if (selectionArea) {
+            setSelectionArea(prev => prev && (selectionMode === 'box' ? [prev[0], point] : [...prev, point]));
+        }
+    };
+
+    /** Applies an undoable change to the selected marks. */
+    const updateSelection = (update: (geometry: LayerGeometry) => LayerGeometry) => {
+        if (!selection || !selectedGeometry || !selectionLayer || selectionLayer.locked) return;
+        const updated = update(selectedGeometry);
+        commitLayers([selection.layerId], layer => replaceSelection(layer, selection, updated));
+    };
+
+    const handleFlipSelection = () => {
+        if (!selectionBounds) return;
+        updateSelection(geometry => transformGeometry(geometry, getBoundsCenter(selectionBounds), { ...IDENTITY_TRANSFORM, flip: true }));
+    };
+
+    const handleDeleteSelection = () => {
+        if (!selection || !selectionLayer || selectionLayer.locked) return;
+        commitLayers([selection.layerId], layer => removeSelection(layer, selection));
+        setSelection(null);
+    };
+
+    const handleCopySelection = () => {
+        if (selectedGeometry) setClipboard(selectedGeometry);
+    };
+
+    const handleCutSelection = () => {
+        handleCopySelection();
+        handleDeleteSelection();
+    };
+
+    /** Adds marks on top of the active layer and selects them, ready to be moved and scaled. */
+    const addToActiveLayer = (geometry: LayerGeometry) => {
+        if (!activeLayer || activeLayer.locked || !activeLayer.visible) return;
+        const added = appendGeometry(activeLayer, geometry);
+        commitLayers([activeLayer.id], () => added.layer);
+        setActiveTool('lasso');
+        setSelection(added.selection);
+    };
+
+    const handlePaste = () => {
+        if (!clipboard) return;
+        const shifted = transformGeometry(clipboard, { x: 0, y: 0 }, { ...IDENTITY_TRANSFORM, dx: PASTE_OFFSET, dy: PASTE_OFFSET });
+        addToActiveLayer(shifted);
+        setClipboard(shifted);
+    };
+
+    /** Saves the pose library; the browser may refuse when its storage is full. */
+    const updateStamps = (update: (stamps: PoseStamp[]) => PoseStamp[]) => {
+        const next = update(stamps);
+        try {
+            savePoseStamps(next);
+            setStamps(next);
+        } catch (error) {
+            console.error(error);
+            alert('Could not save the pose library. The browser storage may be full; delete some poses and try again.');
+        }
+    };
+
+    const handleSaveStamp = () => {
+        if (!selectedGeometry) return;
+        const defaultName = `Pose ${stamps.length + 1}`;
+        const name = window.prompt('Name for this pose:', defaultName);
+        if (name === null) return;
+        const stamp = createPoseStamp(name.trim() || defaultName, selectedGeometry, getCanvasSize(aspectRatio));
+        if (stamp) updateStamps(prev => [...prev, stamp]);
+    };
+
+    const handlePickStamp = (stamp: PoseStamp) => {
+        setActiveTool('stamp');
+        setActiveStampId(stamp.id);
+    };
+
+    const handlePlaceStamp = (point: Point) => {
+        if (!activeStamp) return;
+        const extent = activeStamp.size * getCanvasSize(aspectRatio).height;
+        addToActiveLayer(placePoseStamp(activeStamp, point, extent, stampInBrushColor ? brushColor : null));
+    };
+
+    const handleExportPose = () => {
+        const canvas = canvasRef.current;
+        if (!canvas || skeletons.length === 0) return;
+        const json = toOpenPoseJson(skeletons, canvas.width, canvas.height);
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'pose_keypoints.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportPose = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        const canvas = canvasRef.current;
+        if (!file || !canvas) return;
+        try {
+            const colors = [brushColor, ...SKETCH_COLORS.map(color => color.value).filter(value => value !== brushColor)];
+            const imported = fromOpenPoseJson(await file.text(), canvas.width, canvas.height, colors);
+            updateActiveLayer(layer => ({ ...layer, skeletons: [...layer.skeletons, ...imported] }));
+            setActiveTool('skeleton');
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to import pose.');
+        }
+    };
+
+    const handleExportSvg = () => {
+        const svg = createSketchSvg(layers, getCanvasSize(aspectRatio), colorLabels);
+        const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'sketch.svg';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportSvg = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseSketchSvg(await file.text(), getCanvasSize(aspectRatio));
+            updateActiveLayer(layer => ({ ...layer, strokes: [...layer.strokes, ...imported] }));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to import SVG.');
+        }
+    };
+
+    // Ignore touches while a pen is in use, and touches with a palm-sized contact area.
+    const isRejectedPointer = (e: React.PointerEvent) => (
+        e.pointerType === 'touch'
+        && (Date.now() - lastPenTimeRef.current < PALM_REJECTION_MS || e.width > PALM_CONTACT_SIZE)
+    );
+
+    const zoomAt = (clientX: number, clientY: number, factor: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const rect = container.getBoundingClientRect();
+        const cx = clientX - rect.left;
+        const cy = clientY - rect.top;
+        setView(prev => {
+            const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor));
+            // Keep the point under the cursor fixed while zooming.
+            return {
+                zoom,
+                x: cx - ((cx - prev.x) / prev.zoom) * zoom,
+                y: cy - ((cy - prev.y) / prev.zoom) * zoom,
+            };
+        });
+    };
+
+    const zoomAtCenter = (factor: number) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (rect) zoomAt(rect.left + rect.width / 2, rect.top + rect.height / 2, factor);
+    };
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        // Registered natively so preventDefault works (React's wheel listener is passive).
+        const handleWheel = (e: WheelEvent) => {
+            if (e.ctrlKey || e.metaKey) {
+                e.preventDefault();
+                zoomAt(e.clientX, e.clientY, Math.exp(-e.deltaY * 0.01));
+            } else if (viewRef.current.zoom > 1) {
+                e.preventDefault();
+                setView(prev => ({ ...prev, x: prev.x - e.deltaX, y: prev.y - e.deltaY }));
+            }
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.pointerType === 'pen') lastPenTimeRef.current = Date.now();
+        if (isRejectedPointer(e) || activePointerRef.current !== null) return;
+
+        if (activeTool === 'pan' || isSpaceHeld || e.button === 1) {
+            e.preventDefault();
+            e.currentTarget.setPointerCapture(e.pointerId);
+            activePointerRef.current = e.pointerId;
+            panRef.current = { startX: e.clientX, startY: e.clientY, viewX: view.x, viewY: view.y };
+            return;
+        }
+        if (e.button !== 0) return;
+
+        if (activeTool === 'skeleton' || activeTool === 'select' || activeTool === 'lasso') {
+            const handled = activeTool === 'skeleton' ? handleSkeletonDown(e) : activeTool === 'select' ? handleSelectDown(e) : handleLassoDown(e);
+            if (handled) {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                activePointerRef.current = e.pointerId;
+            }
+            return;
+        }
+        if (!activeLayer || activeLayer.locked || !activeLayer.visible) return;
+        if (activeTool === 'stamp') {
+            handlePlaceStamp(getCanvasCoordinates(e));
+            return;
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        activePointerRef.current = e.pointerId;
+        if (isShapeTool(activeTool)) {
+            setCurrentShape(createShape(activeTool, getCanvasCoordinates(e), brushColor, brushSize));
+            return;
+        }
+        setIsDrawing(true);
+        const point = getPointerPoint(e);
         setCurrentPath({
             points: [point],
             color: brushColor,
             width: activeTool === 'brush' ? brushSize : eraserSize,
-            tool: activeTool
+            tool: activeTool === 'eraser' ? 'eraser' : 'brush'
         });
     };
 
-    const handleMouseMove = (e: React.MouseEvent | React.TouchEvent) => {
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.pointerType === 'pen') lastPenTimeRef.current = Date.now();
+        if (e.pointerId !== activePointerRef.current) return;
+
+        if (panRef.current) {
+            const { startX, startY, viewX, viewY } = panRef.current;
+            setView(prev => ({ ...prev, x: viewX + e.clientX - startX, y: viewY + e.clientY - startY }));
+            return;
+        }
+        if (activeTool === 'skeleton') {
+            handleSkeletonMove(e);
+            return;
+        }
+        if (activeTool === 'select') {
+            handleSelectMove(e);
+            return;
+        }
+        if (activeTool === 'lasso') {
+            handleLassoMove(e);
+            return;
+        }
+        if (currentShape) {
+            const point = getCanvasCoordinates(e);
+            setCurrentShape(prev => prev && { ...prev, end: point });
+            return;
+        }
         if (!isDrawing || !currentPath) return;
-        const point = getCanvasCoordinates(e);
-        setCurrentPath(prev => prev ? { ...prev, points: [...prev.points, point] } : null);
+        // Coalesced events carry the intermediate samples of fast pen movements.
+        const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        const points = events.length > 0 ? events.map(getPointerPoint) : [getPointerPoint(e)];
+        setCurrentPath(prev => prev ? { ...prev, points: [...prev.points, ...points] } : null);
     };
 
-    const handleMouseUp = () => {
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.pointerId !== activePointerRef.current) return;
+        activePointerRef.current = null;
+        panRef.current = null;
         if (currentPath) {
-            setStrokes(prev => [...prev, currentPath]);
+            updateActiveLayer(layer => ({ ...layer, strokes: [...layer.strokes, currentPath] }));
+        }
+        if (currentShape) {
+            const { left, top, right, bottom } = getShapeBounds(currentShape);
+            if (Math.max(right - left, bottom - top) >= MIN_SHAPE_SIZE) {
+                updateActiveLayer(layer => ({ ...layer, shapes: [...layer.shapes, currentShape] }));
+                setSelectedShapeId(currentShape.id);
+            }
+        }
+        if (selectionArea && activeLayer) {
+            const area = selectionMode === 'box' ? getBoxArea(selectionArea[0], selectionArea[selectionArea.length - 1]) : selectionArea;
+            setSelection(selectInArea(activeLayer, area));
         }
         setCurrentPath(null);
+        setCurrentShape(null);
         setIsDrawing(false);
+        pendingUndoRef.current = null;
+        setSkeletonDrag(null);
+        setShapeDrag(null);
+        setSelectionArea(null);
+        setSelectionDrag(null);
     };
 
-    const handleUndo = () => {
-        setStrokes(strokes.slice(0, -1));
+    const handleClear = () => {
+        commitLayers(
+            layers.filter(layer => !layer.locked && !isLayerEmpty(layer)).map(layer => layer.id),
+            layer => ({ ...layer, strokes: [], shapes: [], skeletons: [] }),
+        );
+        setSelectedSkeletonId(null);
+        setSelectedShapeId(null);
+        setSelection(null);
     };
 
-    const handleClear = () => {
-        setStrokes([]);
+    const handleAddLayer = () => {
+        const layer = createLayer(`Layer ${layers.length + 1}`);
+        setLayers(prev => [...prev, layer]);
+        setActiveLayerId(layer.id);
     };
 
+    // Shortcuts only apply while the sketch pad is in use: the pointer is over
+    // it or focus is inside it, and no dialog is covering it.
+    const isSketchPadActive = () => {
+        if (document.querySelector('[aria-modal="true"]')) return false;
+        const root = rootRef.current;
+        return isPointerOverRef.current || (!!root && root.contains(document.activeElement));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+        if (!isSketchPadActive()) return;
+
+        const key = e.key.toLowerCase();
+        if (e.ctrlKey || e.metaKey) {
+            if (key === 'z' && e.shiftKey || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            } else if (key === 'z') {
+                e.preventDefault();
+                handleUndo();
+            } else if (key === 'c' && selection) {
+                e.preventDefault();
+                handleCopySelection();
+            } else if (key === 'x' && selection) {
+                e.preventDefault();
+                handleCutSelection();
+            } else if (key === 'v' && clipboard) {
+                e.preventDefault();
+                handlePaste();
+            }
+            return;
+        }
+        if (e.altKey) return;
+
+        if (key === ' ') {
+            // Leave Space to activate the focused button, checkbox or link.
+            if (target?.closest(INTERACTIVE_SELECTOR)) return;
+            e.preventDefault();
+            setIsSpaceHeld(true);
+        } else if (key === 'b') {
+            setActiveTool('brush');
+        } else if (key === 'e') {
+            setActiveTool('eraser');
+        } else if (key === 'p') {
+            setActiveTool('skeleton');
+        } else if (key === 'h') {
+            setActiveTool('pan');
+        } else if (key === 'v') {
+            setActiveTool('select');
+        } else if (key === 's') {
+            setActiveTool('lasso');
+        } else if (key === 'f' && selection) {
+            handleFlipSelection();
+        } else if (key === 'escape') {
+            setSelection(null);
+            if (activeTool === 'stamp') setActiveTool('lasso');
+        } else if (SHAPE_SHORTCUTS[key]) {
+            setActiveTool(SHAPE_SHORTCUTS[key]);
+        } else if (/^[1-9]$/.test(key) && SKETCH_COLORS[parseInt(key) - 1]) {
+            handleSelectColor(SKETCH_COLORS[parseInt(key) - 1].value);
+        } else if (key === '[' || key === ']') {
+            const delta = key === ']' ? 1 : -1;
+            if (activeTool === 'eraser') {
+                setEraserSize(size => Math.min(100, Math.max(1, size + delta * 5)));
+            } else {
+                setBrushSize(size => Math.min(50, Math.max(1, size + delta)));
+            }
+        } else if (key === '0') {
+            setView(DEFAULT_VIEW);
+        } else if (key === '=' || key === '+') {
+            zoomAtCenter(1.25);
+        } else if (key === '-') {
+            zoomAtCenter(0.8);
+        } else if ((key === 'delete' || key === 'backspace') && e.shiftKey) {
+            e.preventDefault();
+            handleClear();
+        } else if ((key === 'delete' || key === 'backspace') && selection) {
+            e.preventDefault();
+            handleDeleteSelection();
+        } else if ((key === 'delete' || key === 'backspace') && isEditingShapes && selectedShapeId) {
+            e.preventDefault();
+            handleDeleteSelectedShape();
+        } else if ((key === 'delete' || key === 'backspace') && selectedSkeletonId) {
+            e.preventDefault();
+            handleDeleteSelected();
+        }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+        if (e.key === ' ') setIsSpaceHeld(false);
+    };
+
+    // Route window key events to the latest handlers without re-subscribing every render.
+    const keyHandlersRef = useRef({ handleKeyDown, handleKeyUp });
+    keyHandlersRef.current = { handleKeyDown, handleKeyUp };
+    viewRef.current = view;
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => keyHandlersRef.current.handleKeyDown(e);
+        const onKeyUp = (e: KeyboardEvent) => keyHandlersRef.current.handleKeyUp(e);
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+        };
+    }, []);
+
     useImperativeHandle(ref, () => ({
         getCanvasData: () => {
             const canvas = canvasRef.current;
@@ -132,44 +953,191 @@ export const SketchPad = forwardRef<{ getCanvasData: () => string | null }, Sket
                 
                 tempCtx.fillStyle = '#0D1117'; // Match app background
                 tempCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
-                tempCtx.drawImage(canvas, 0, 0);
+                if (underlayImage && underlay.includeInExport) drawUnderlay(tempCtx, underlayImage, underlay);
+                renderLayers(tempCtx, layers, { forGeneration: true });
                 
                 return tempCanvas.toDataURL('image/png');
             }
             return null;
-        }
+        },
+        getLayers: () => layers.map(layer => toRelativeLayer(layer, getCanvasSize(aspectRatio))),
+        setLayers: (newLayers: SketchLayer[], newAspectRatio: AspectRatio) => {
+            setCurrentPath(null);
+            setIsDrawing(false);
+            setSkeletonDrag(null);
+            setSelectedSkeletonId(null);
+            setSelectedShapeId(null);
+            setSelection(null);
+            setSelectionArea(null);
+            setSelectionDrag(null);
+            setUndoStacks({});
+            // Always keep a scene layer to draw on.
+            const size = getCanvasSize(newAspectRatio);
+            const restored = newLayers.length > 0 ? newLayers.map(layer => toCanvasLayer(normalizeLayer(layer), size)) : [createSceneLayer()];
+            setLayers(restored);
+            setActiveLayerId(restored[restored.length - 1].id);
+        },
     }));
     
     return (
-        <div className="flex flex-col h-full">
+        <div
+            ref={rootRef}
+            className="flex flex-col h-full"
+            onPointerEnter={() => { isPointerOverRef.current = true; }}
+            onPointerLeave={() => { isPointerOverRef.current = false; }}
+        >
             <h2 className="text-xl font-semibold mb-4 text-blue-400 border-b border-gray-700 pb-2 flex justify-between items-center">
                 3. Sketch Poses
                 <div>
-                    <button onClick={handleUndo} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md mr-2 transition-colors">Undo</button>
-                    <button onClick={handleClear} className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 rounded-md transition-colors">Clear All</button>
+                    <button onClick={handleUndo} disabled={!canUndo} title="Undo on the active layer (Ctrl+Z)" className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md mr-2 transition-colors disabled:opacity-50">Undo</button>
+                    <button onClick={handleRedo} disabled={!canRedo} title="Redo on the active layer (Ctrl+Shift+Z)" className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md mr-2 transition-colors disabled:opacity-50">Redo</button>
+                    <button onClick={handleClear} title="Clear all unlocked layers (Shift+Delete)" className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 rounded-md transition-colors">Clear All</button>
                 </div>
             </h2>
             
             <div className="bg-[#0D1117] p-2 rounded-md mb-4 border border-gray-700">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
-                    <div className="flex items-center gap-2">
-                        <span className="text-sm font-medium text-gray-300">Aspect Ratio:</span>
-                        {(['1:1', '2:3', '3:2'] as AspectRatio[]).map(ratio => (
-                            <button key={ratio} onClick={() => setAspectRatio(ratio)} className={`px-3 py-1 text-sm rounded-md transition-colors ${aspectRatio === ratio ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`}>
-                                {ratio}
-                            </button>
-                        ))}
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-medium text-gray-300">Aspect Ratio:</span>
+                        <select
+                            value={isCustomRatio || !ASPECT_RATIO_PRESETS.includes(aspectRatio) ? 'custom' : aspectRatio}
+                            onChange={(e) => {
+                                const custom = e.target.value === 'custom';
+                                setIsCustomRatio(custom);
+                                if (!custom) handleAspectRatioChange(e.target.value as AspectRatio);
+                            }}
+                            className="px-2 py-1 bg-gray-700 rounded-md"
+                        >
+                            {ASPECT_RATIO_PRESETS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                            <option value="custom">Custom…</option>
+                        </select>
+                        {(isCustomRatio || !ASPECT_RATIO_PRESETS.includes(aspectRatio)) && (
+                            <>
+                                <input type="number" min="1" value={customRatio[0]} onChange={(e) => setCustomRatio([e.target.value, customRatio[1]])} aria-label="Ratio width" className="w-14 px-1 py-1 bg-gray-700 rounded-md" />
+                                :
+                                <input type="number" min="1" value={customRatio[1]} onChange={(e) => setCustomRatio([customRatio[0], e.target.value])} aria-label="Ratio height" className="w-14 px-1 py-1 bg-gray-700 rounded-md" />
+                                <button
+                                    onClick={() => handleAspectRatioChange(customRatioValue as AspectRatio)}
+                                    disabled={!isCustomRatioValid || customRatioValue === aspectRatio}
+                                    title={isCustomRatioValid ? undefined : 'Use a ratio between 1:4 and 4:1'}
+                                    className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors disabled:opacity-50"
+                                >
+                                    Apply
+                                </button>
+                            </>
+                        )}
+                        <select
+                            value={ratioChangeMode}
+                            onChange={(e) => setRatioChangeMode(e.target.value as RatioChangeMode)}
+                            title="What happens to the sketch when the ratio changes"
+                            className="px-2 py-1 bg-gray-700 rounded-md"
+                        >
+                            <option value="rescale">Rescale to fit</option>
+                            <option value="reposition">Keep size, re-center</option>
+                        </select>
                     </div>
-                     <div className="flex items-center gap-2">
+                     <div className="flex flex-wrap items-center gap-2">
                         <span className="text-sm font-medium text-gray-300">Tools:</span>
-                        {colors.map(color => (
-                             <button key={color.name} onClick={() => { setBrushColor(color.value); setActiveTool('brush'); }} className={`w-7 h-7 rounded-full border-2 transition-all ${brushColor === color.value && activeTool === 'brush' ? 'border-white scale-110' : 'border-transparent'}`} style={{ backgroundColor: color.value }}></button>
+                        {SKETCH_COLORS.map((color, index) => (
+                             <button key={color.name} title={`${colorLabels[color.value] ? `${color.name} – ${colorLabels[color.value]}` : color.name} (${index + 1})`} onClick={() => handleSelectColor(color.value)} className={`w-7 h-7 rounded-full border-2 transition-all ${brushColor === color.value && activeTool === 'brush' ? 'border-white scale-110' : 'border-transparent'}`} style={{ backgroundColor: color.value }}></button>
                         ))}
-                         <button onClick={() => setActiveTool('eraser')} className={`p-1 rounded-md ${activeTool === 'eraser' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                         <button onClick={() => setActiveTool('eraser')} title="Eraser (E)" className={`p-1 rounded-md ${activeTool === 'eraser' ? 'bg-blue-600' : 'bg-gray-600'}`}>
                            <EraserIcon className="w-5 h-5"/>
                          </button>
+                         <button onClick={() => setActiveTool('skeleton')} title="Pose skeleton (P)" className={`p-1 rounded-md ${activeTool === 'skeleton' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                           <SkeletonIcon className="w-5 h-5"/>
+                         </button>
+                         <button onClick={() => setActiveTool('select')} title="Select, move and resize shapes (V)" className={`px-2 h-7 text-sm rounded-md ${activeTool === 'select' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                           Select
+                         </button>
+                         <button onClick={() => setActiveTool('lasso')} title="Lasso: select strokes, shapes and figures to move, scale, rotate, flip, recolor or copy (S)" className={`px-2 h-7 text-sm rounded-md ${activeTool === 'lasso' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                           Lasso
+                         </button>
+                         {SHAPE_TOOLS.map(tool => (
+                             <button key={tool.kind} onClick={() => setActiveTool(tool.kind)} title={tool.title} className={`w-7 h-7 text-sm rounded-md ${activeTool === tool.kind ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                                 {tool.label}
+                             </button>
+                         ))}
+                         <button onClick={() => setActiveTool('pan')} title="Pan (H, or hold Space)" className={`p-1 rounded-md ${activeTool === 'pan' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                           <HandIcon className="w-5 h-5"/>
+                         </button>
                     </div>
                 </div>
+                {activeTool === 'skeleton' && (
+                    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                        <button onClick={handleAddSkeleton} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded-md transition-colors">
+                            + Figure
+                        </button>
+                        <span className="w-4 h-4 rounded-full" style={{ backgroundColor: brushColor }} title="New figures use the selected color"></span>
+                        <div className={`flex flex-wrap items-center gap-1 ${selectedSkeletonId ? '' : 'opacity-50 pointer-events-none'}`}>
+                            <button onClick={() => handleTransformSelected(mirrorSkeleton)} className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Mirror</button>
+                            <button onClick={() => handleTransformSelected(skeleton => transformSkeleton(skeleton, { rotation: -15 }))} title="Rotate left" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">⟲</button>
+                            <button onClick={() => handleTransformSelected(skeleton => transformSkeleton(skeleton, { rotation: 15 }))} title="Rotate right" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">⟳</button>
+                            <button onClick={() => handleTransformSelected(skeleton => transformSkeleton(skeleton, { scale: 0.9 }))} title="Shrink" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">−</button>
+                            <button onClick={() => handleTransformSelected(skeleton => transformSkeleton(skeleton, { scale: 1.1 }))} title="Enlarge" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">+</button>
+                            <button onClick={() => handleTransformSelected(skeleton => ({ ...skeleton, color: brushColor }))} title="Assign the selected color" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Recolor</button>
+                            <button onClick={handleDeleteSelected} className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded-md transition-colors">Delete</button>
+                        </div>
+                        <div className="ml-auto flex gap-1">
+                            <button onClick={() => poseInputRef.current?.click()} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Import OpenPose</button>
+                            <button onClick={handleExportPose} disabled={skeletons.length === 0} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">Export OpenPose</button>
+                            <input ref={poseInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportPose} />
+                        </div>
+                        <p className="w-full text-xs text-gray-400">Drag a joint to pose it; Shift+drag moves the whole figure.</p>
+                    </div>
+                )}
+                {activeTool === 'lasso' && (
+                    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                        <select value={selectionMode} onChange={(e) => setSelectionMode(e.target.value as 'lasso' | 'box')} title="How to select" className="px-2 py-1 bg-gray-700 rounded-md">
+                            <option value="lasso">Freehand</option>
+                            <option value="box">Box</option>
+                        </select>
+                        <div className={`flex flex-wrap items-center gap-1 ${selection ? '' : 'opacity-50 pointer-events-none'}`}>
+                            <button onClick={handleFlipSelection} title="Flip horizontally (F)" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Flip</button>
+                            <button onClick={handleCopySelection} title="Copy (Ctrl+C)" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Copy</button>
+                            <button onClick={handleCutSelection} title="Cut (Ctrl+X)" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Cut</button>
+                            <button onClick={handleSaveStamp} title="Add the selection to the pose library" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Save as pose</button>
+                            <button onClick={handleDeleteSelection} className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded-md transition-colors">Delete</button>
+                        </div>
+                        <button onClick={handlePaste} disabled={!clipboard} title="Paste onto the active layer (Ctrl+V)" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors disabled:opacity-50">Paste</button>
+                        <p className="w-full text-xs text-gray-400">
+                            Circle marks on the active layer to select them. Drag the selection to move it, a corner to scale it and the round handle to rotate it (Shift snaps to 15°). Click a color to recolor it. Copy and paste also work across layers.
+                        </p>
+                    </div>
+                )}
+                {activeTool === 'stamp' && activeStamp && (
+                    <p className="mt-3 text-xs text-gray-400">
+                        Click the sketch to place “{activeStamp.name}” on the active layer. It is then selected, so it can be moved and scaled. Esc cancels.
+                    </p>
+                )}
+                {isEditingShapes && (
+                    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                        <div className={`flex flex-wrap items-center gap-1 ${selectedShape ? '' : 'opacity-50 pointer-events-none'}`}>
+                            {selectedShape?.kind === 'placement' && (
+                                <>
+                                    <button onClick={() => handleUpdateSelectedShape(toggleShapeDirection)} className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">
+                                        {selectedShape.direction ? 'Remove direction' : 'Add direction'}
+                                    </button>
+                                    {selectedShape.direction && (
+                                        <select
+                                            value={selectedShape.directionKind ?? 'gaze'}
+                                            onChange={(e) => handleUpdateSelectedShape(shape => ({ ...shape, directionKind: e.target.value as DirectionKind }))}
+                                            className="px-2 py-1 bg-gray-700 rounded-md"
+                                        >
+                                            <option value="gaze">Facing</option>
+                                            <option value="motion">Moving</option>
+                                        </select>
+                                    )}
+                                </>
+                            )}
+                            <button onClick={() => handleUpdateSelectedShape(shape => ({ ...shape, color: brushColor }))} title="Assign the selected color" className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded-md transition-colors">Recolor</button>
+                            <button onClick={handleDeleteSelectedShape} className="px-2 py-1 bg-red-600 hover:bg-red-700 rounded-md transition-colors">Delete</button>
+                        </div>
+                        <p className="w-full text-xs text-gray-400">
+                            Drag to draw a shape in the selected color. Placement boxes mark where a character goes and how big it is; add a direction and drag its arrow tip to show where they face or move. Select (V) moves shapes and resizes them by their handles.
+                        </p>
+                    </div>
+                )}
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
                     <div className="flex items-center gap-2">
                         <BrushIcon className="w-5 h-5 text-gray-400" />
@@ -182,23 +1150,121 @@ export const SketchPad = forwardRef<{ getCanvasData: () => string | null }, Sket
                         <input type="range" min="1" max="100" value={eraserSize} onChange={(e) => setEraserSize(parseInt(e.target.value))} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
                     </div>
                 </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-sm text-gray-300">
+                    <label className="flex items-center gap-2">
+                        <span className="font-medium">Underlay:</span>
+                        <select value={underlay.source} onChange={(e) => handleUnderlaySourceChange(e.target.value as UnderlaySource)} className="px-2 py-1 bg-gray-700 rounded-md">
+                            <option value="none">Off</option>
+                            <option value="background" disabled={!bgImage}>Background</option>
+                            <option value="custom">Reference image…</option>
+                        </select>
+                    </label>
+                    {underlay.source === 'custom' && (
+                        <button onClick={() => underlayInputRef.current?.click()} title={customUnderlay?.name} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                            {customUnderlay ? 'Change image' : 'Choose image'}
+                        </button>
+                    )}
+                    <input ref={underlayInputRef} type="file" accept="image/*" className="hidden" onChange={handleUnderlayFile} />
+                    {underlayImage && (
+                        <>
+                            <label className="flex items-center gap-2">
+                                Opacity
+                                <input type="range" min="0.05" max="1" step="0.05" value={underlay.opacity} onChange={(e) => updateUnderlay({ opacity: parseFloat(e.target.value) })} className="w-24 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Fit
+                                <select value={underlay.fit} onChange={(e) => updateUnderlay({ fit: e.target.value as UnderlayFit })} className="px-2 py-1 bg-gray-700 rounded-md">
+                                    <option value="contain">Contain</option>
+                                    <option value="cover">Cover</option>
+                                    <option value="stretch">Stretch</option>
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Crop zoom
+                                <input type="range" min="1" max="4" step="0.1" value={underlay.zoom} onChange={(e) => updateUnderlay({ zoom: parseFloat(e.target.value) })} className="w-20 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                            <label className="flex items-center gap-2">
+                                X
+                                <input type="range" min="0" max="1" step="0.01" value={underlay.focusX} onChange={(e) => updateUnderlay({ focusX: parseFloat(e.target.value) })} className="w-20 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Y
+                                <input type="range" min="0" max="1" step="0.01" value={underlay.focusY} onChange={(e) => updateUnderlay({ focusY: parseFloat(e.target.value) })} className="w-20 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                            <label className="flex items-center gap-2" title="Set the aspect ratio to match the underlay image">
+                                <input type="checkbox" checked={matchUnderlayRatio} onChange={(e) => setMatchUnderlayRatio(e.target.checked)} />
+                                Match ratio
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Model receives
+                                <select value={underlay.includeInExport ? 'composite' : 'sketch'} onChange={(e) => updateUnderlay({ includeInExport: e.target.value === 'composite' })} className="px-2 py-1 bg-gray-700 rounded-md">
+                                    <option value="sketch">Sketch only</option>
+                                    <option value="composite">Sketch over underlay</option>
+                                </select>
+                            </label>
+                        </>
+                    )}
+                    <div className="ml-auto flex gap-1">
+                        <button onClick={() => svgInputRef.current?.click()} title="Add the paths of an SVG file as strokes on the current layer" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Import SVG</button>
+                        <button onClick={handleExportSvg} disabled={!layers.some(layer => layer.visible && layer.strokes.length > 0)} title="Save the brush strokes as SVG, grouped by color" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">Export SVG</button>
+                        <input ref={svgInputRef} type="file" accept="image/svg+xml,.svg" className="hidden" onChange={handleImportSvg} />
+                    </div>
+                </div>
             </div>
 
-            <div className="flex-grow w-full aspect-w-1 aspect-h-1" style={{ aspectRatio: ASPECT_RATIO_MAP[aspectRatio] }}>
+            <div
+                ref={containerRef}
+                className="relative flex-grow w-full aspect-w-1 aspect-h-1 overflow-hidden bg-[#0D1117] rounded-md border border-gray-700"
+                style={{ aspectRatio: getRatioValue(aspectRatio) }}
+            >
                 <canvas
                     ref={canvasRef}
-                    width={800 * ASPECT_RATIO_MAP[aspectRatio]}
-                    height={800}
-                    className="bg-[#0D1117] rounded-md border border-gray-700 touch-none w-full h-full"
-                    onMouseDown={handleMouseDown}
-                    onMouseMove={handleMouseMove}
-                    onMouseUp={handleMouseUp}
-                    onMouseLeave={handleMouseUp}
-                    onTouchStart={handleMouseDown}
-                    onTouchMove={handleMouseMove}
-                    onTouchEnd={handleMouseUp}
+                    width={getCanvasSize(aspectRatio).width}
+                    height={getCanvasSize(aspectRatio).height}
+                    className="touch-none w-full h-full"
+                    style={{
+                        transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+                        transformOrigin: '0 0',
+                        cursor: panRef.current ? 'grabbing' : activeTool === 'pan' || isSpaceHeld ? 'grab' : 'crosshair',
+                    }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onContextMenu={(e) => e.preventDefault()}
                 />
+                <div className="absolute bottom-2 right-2 flex items-center gap-1 bg-black/60 rounded-md p-1 text-xs">
+                    <button onClick={() => zoomAtCenter(0.8)} title="Zoom out (-)" className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">−</button>
+                    <span className="w-12 text-center text-gray-300">{Math.round(view.zoom * 100)}%</span>
+                    <button onClick={() => zoomAtCenter(1.25)} title="Zoom in (+)" className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">+</button>
+                    <button onClick={() => setView(DEFAULT_VIEW)} title="Reset view (0)" className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Reset</button>
+                </div>
             </div>
+            <p className="mt-1 text-xs text-gray-500">
+                B brush · E eraser · P pose · V select · S lasso · F flip · Ctrl+C / X / V copy, cut, paste · L R O A M shapes · H pan · 1–8 colors · [ ] size · Ctrl+Z / Ctrl+Shift+Z undo/redo · Shift+Del clear · Ctrl+wheel zoom · 0 reset view
+            </p>
+
+            <LayerPanel
+                layers={layers}
+                activeLayerId={activeLayer?.id ?? null}
+                getLayerName={getLayerName}
+                getLayerColor={(layer) => characters.find(character => character.id === layer.characterId)?.color ?? null}
+                onSelect={setActiveLayerId}
+                onChange={setLayers}
+                onAdd={handleAddLayer}
+            />
+
+            <PoseLibraryPanel
+                stamps={stamps}
+                activeStampId={activeStampId}
+                useBrushColor={stampInBrushColor}
+                canSave={!!selection}
+                onSave={handleSaveStamp}
+                onPick={handlePickStamp}
+                onRename={(stamp, name) => updateStamps(prev => prev.map(item => item.id === stamp.id ? { ...item, name } : item))}
+                onDelete={(stamp) => updateStamps(prev => prev.filter(item => item.id !== stamp.id))}
+                onUseBrushColorChange={setStampInBrushColor}
+            />
         </div>
     );
 });
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import {
+    BUDGET_PERIOD_LABELS,
+    DEFAULT_PRICING,
+    filterUsageByMonth,
+    formatCost,
+    getPeriodStart,
+    getPricing,
+    getUsageMonths,
+    summarizeUsage,
+    toUsageCsv,
+} from '../services/usageTracker';
+import type { BudgetPeriod, ModelPricing, UsageRecord, UsageSettings, UsageTotals } from '../services/usageTracker';
+import { formatBytes } from '../services/imagePreprocessing';
+
+interface UsageDialogProps {
+    records: UsageRecord[];
+    settings: UsageSettings;
+    /** When this page was loaded; the session totals count from here. */
+    sessionStart: number;
+    onSettingsChange: (settings: UsageSettings) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+const PRICE_FIELDS: { key: keyof ModelPricing; label: string }[] = [
+    { key: 'inputPerMillionTokens', label: 'Input $/1M tokens' },
+    { key: 'outputPerMillionTokens', label: 'Output $/1M tokens' },
+    { key: 'perImage', label: '$/image' },
+];
+
+const TOTAL_ROWS: { label: string; format: (totals: UsageTotals) => string }[] = [
+    { label: 'Requests', format: totals => totals.failed > 0 ? `${totals.requests} (${totals.failed} failed)` : String(totals.requests) },
+    { label: 'Images', format: totals => String(totals.images) },
+    { label: 'Tokens in / out', format: totals => `${totals.inputTokens.toLocaleString()} / ${totals.outputTokens.toLocaleString()}` },
+    { label: 'Data sent', format: totals => formatBytes(totals.requestBytes) },
+    { label: 'Estimated cost', format: totals => formatCost(totals.cost) },
+];
+
+const buttonClasses = 'px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+const inputClasses = 'bg-[#0D1117] border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500';
+
+/** Running totals, the budget, per-model prices and the CSV export of the usage log. */
+export const UsageDialog: React.FC<UsageDialogProps> = ({ records, settings, sessionStart, onSettingsChange, onClear, onClose }) => {
+    const months = getUsageMonths(records);
+    const [exportMonth, setExportMonth] = useState(months[0] ?? 'all');
+    const periods: BudgetPeriod[] = ['session', 'day', 'month'];
+    const totals = periods.map(period => summarizeUsage(records, getPeriodStart(period, sessionStart)));
+    const budgetSpent = totals[periods.indexOf(settings.budgetPeriod)].cost;
+    const models = [...new Set([...Object.keys(DEFAULT_PRICING), ...records.map(record => record.model)])];
+
+    const updatePrice = (model: string, key: keyof ModelPricing, value: string) => {
+        const pricing = { ...getPricing(settings, model), [key]: Math.max(0, parseFloat(value) || 0) };
+        onSettingsChange({ ...settings, pricing: { ...settings.pricing, [model]: pricing } });
+    };
+
+    const resetPrice = (model: string) => {
+        const { [model]: _, ...pricing } = settings.pricing;
+        onSettingsChange({ ...settings, pricing });
+    };
+
+    const handleExport = () => {
+        const exported = exportMonth === 'all' ? records : filterUsageByMonth(records, exportMonth);
+        const url = URL.createObjectURL(new Blob([toUsageCsv(exported)], { type: 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `pose-painter-usage-${exportMonth}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClear = () => {
+        if (!window.confirm('Delete the whole usage log? Export it first if you still need it.')) return;
+        onClear();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" role="dialog" aria-modal="true" onClick={onClose}>
+            <div className="bg-[#161B22] p-4 rounded-lg border border-gray-700 flex flex-col gap-4 w-[40rem] max-w-[90vw] max-h-[90vh] overflow-y-auto text-sm text-gray-300" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-sm font-semibold text-blue-400">Usage and cost</h3>
+
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="text-gray-400">
+                            <th className="font-normal"></th>
+                            {periods.map(period => <th key={period} className="font-normal capitalize">{BUDGET_PERIOD_LABELS[period]}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {TOTAL_ROWS.map(row => (
+                            <tr key={row.label}>
+                                <td className="text-gray-400 pr-2">{row.label}</td>
+                                {totals.map((periodTotals, index) => <td key={periods[index]}>{row.format(periodTotals)}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div className="flex flex-col gap-2">
+                    <h4 className="font-semibold text-gray-200">Budget</h4>
+                    <div className="flex flex-wrap items-center gap-2">
+                        $
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={settings.budget ?? ''}
+                            placeholder="None"
+                            onChange={(e) => onSettingsChange({ ...settings, budget: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : null })}
+                            className={`${inputClasses} w-24`}
+                        />
+                        <select value={settings.budgetPeriod} onChange={(e) => onSettingsChange({ ...settings, budgetPeriod: e.target.value as BudgetPeriod })} className={inputClasses}>
+                            <option value="session">per session</option>
+                            <option value="day">per day</option>
+                            <option value="month">per month</option>
+                        </select>
+                        <select value={settings.budgetMode} onChange={(e) => onSettingsChange({ ...settings, budgetMode: e.target.value as UsageSettings['budgetMode'] })} className={inputClasses}>
+                            <option value="warn">Ask before going over</option>
+                            <option value="block">Never go over</option>
+                        </select>
+                    </div>
+                    {settings.budget !== null && (
+                        <p className={budgetSpent >= settings.budget ? 'text-amber-400' : 'text-gray-400'}>
+                            {formatCost(budgetSpent)} of {formatCost(settings.budget)} used {BUDGET_PERIOD_LABELS[settings.budgetPeriod]}.
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <h4 className="font-semibold text-gray-200">Prices</h4>
+                    {models.map(model => (
+                        <div key={model} className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono text-xs w-56 truncate" title={model}>{model}</span>
+                            {PRICE_FIELDS.map(field => (
+                                <label key={field.key} className="flex items-center gap-1 text-xs" title={field.label}>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="any"
+                                        value={getPricing(settings, model)[field.key]}
+                                        onChange={(e) => updatePrice(model, field.key, e.target.value)}
+                                        className={`${inputClasses} w-20`}
+                                    />
+                                    {field.label}
+                                </label>
+                            ))}
+                            {settings.pricing[model] && <button onClick={() => resetPrice(model)} className="text-xs text-blue-400 hover:underline">Reset</button>}
+                        </div>
+                    ))}
+                    <p className="text-xs text-gray-500">Costs are estimates from these prices. New prices apply to new requests; logged requests keep the cost they were recorded with.</p>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                        <select value={exportMonth} onChange={(e) => setExportMonth(e.target.value)} className={inputClasses}>
+                            {months.map(month => <option key={month} value={month}>{month}</option>)}
+                            <option value="all">All months</option>
+                        </select>
+                        <button onClick={handleExport} disabled={records.length === 0} className={buttonClasses}>Export CSV</button>
+                        <button onClick={handleClear} disabled={records.length === 0} className={buttonClasses}>Clear log</button>
+                    </div>
+                    <button onClick={onClose} className={buttonClasses}>Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import type { JobStatus } from '../services/jobQueue';
+import { LoadingSpinner, StarIcon } from './icons';
+import { ErrorNotice } from './ErrorNotice';
+
+export interface Variation {
+    id: string;
+    status: JobStatus;
+    image: string | null; // base64 data URL
+    /** What the model wrote alongside the image; streamed in while running. */
+    text: string;
+    error: Error | null;
+    savedToHistory: boolean;
+}
+
+interface VariationGridProps {
+    variations: Variation[];
+    onOpen: (variation: Variation) => void;
+    onSaveToHistory: (variation: Variation) => void;
+    onRetry: (variation: Variation) => void;
+    onDismiss: () => void;
+}
+
+const STATUS_LABELS: { [status in JobStatus]: string } = {
+    queued: 'Queued',
+    running: 'Generating...',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+export const VariationGrid: React.FC<VariationGridProps> = ({ variations, onOpen, onSaveToHistory, onRetry, onDismiss }) => {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [isComparing, setIsComparing] = useState(false);
+
+    const doneCount = variations.filter(variation => variation.status === 'done').length;
+    const failedCount = variations.filter(variation => variation.status === 'failed').length;
+    const selected = variations.filter(variation => selectedIds.includes(variation.id) && variation.image);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+    };
+
+    return (
+        <div className="bg-[#161B22] p-6 rounded-lg border border-gray-700">
+            <h2 className="text-xl font-semibold mb-4 text-blue-400 border-b border-gray-700 pb-2 flex justify-between items-center">
+                <span>
+                    Variations
+                    <span className="ml-2 text-sm font-normal text-gray-400">
+                        {doneCount}/{variations.length} done{failedCount > 0 && `, ${failedCount} failed`}
+                    </span>
+                </span>
+                <div>
+                    <button
+                        onClick={() => setIsComparing(true)}
+                        disabled={selected.length < 2}
+                        className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 rounded-md mr-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Compare ({selected.length})
+                    </button>
+                    <button onClick={onDismiss} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Dismiss</button>
+                </div>
+            </h2>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {variations.map((variation, index) => (
+                    <div
+                        key={variation.id}
+                        className={`bg-[#0D1117] rounded-md border-2 overflow-hidden flex flex-col ${selectedIds.includes(variation.id) ? 'border-blue-500' : 'border-gray-700'}`}
+                    >
+                        <div className="aspect-square bg-black flex items-center justify-center">
+                            {variation.image ? (
+                                <button onClick={() => onOpen(variation)} className="w-full h-full">
+                                    <img src={variation.image} alt={`Variation ${index + 1}`} className="w-full h-full object-contain" />
+                                </button>
+                            ) : variation.status === 'failed' ? (
+                                <ErrorNotice error={variation.error ?? 'Failed.'} className="text-xs p-2 text-center overflow-auto max-h-full" />
+                            ) : (
+                                <span className="flex items-center text-sm text-gray-400">
+                                    {variation.status === 'running' && <LoadingSpinner />}
+                                    {STATUS_LABELS[variation.status]}
+                                </span>
+                            )}
+                        </div>
+                        {variation.text && (
+                            <p title={variation.text} className="px-2 pt-2 text-xs text-gray-400 italic line-clamp-3">{variation.text}</p>
+                        )}
+                        <div className="p-2 flex items-center justify-between gap-1 text-xs text-gray-400">
+                            <span>#{index + 1}</span>
+                            {variation.image && (
+                                <>
+                                    <label className="flex items-center gap-1 cursor-pointer">
+                                        <input type="checkbox" checked={selectedIds.includes(variation.id)} onChange={() => toggleSelected(variation.id)} />
+                                        Select
+                                    </label>
+                                    <button
+                                        onClick={() => onSaveToHistory(variation)}
+                                        disabled={variation.savedToHistory}
+                                        title={variation.savedToHistory ? 'Saved to history' : 'Save to history'}
+                                        className={`p-1 rounded-md hover:bg-gray-700 transition-colors ${variation.savedToHistory ? 'text-yellow-400' : ''}`}
+                                    >
+                                        <StarIcon className="w-4 h-4" fill={variation.savedToHistory ? 'currentColor' : 'none'} />
+                                    </button>
+                                </>
+                            )}
+                            {variation.status === 'failed' && (
+                                <button onClick={() => onRetry(variation)} className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">Retry</button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {isComparing && (
+                <div className="fixed inset-0 bg-black/90 flex flex-col z-50 p-4" role="dialog" aria-modal="true" onClick={() => setIsComparing(false)}>
+                    <div className="flex-grow grid gap-2 min-h-0" style={{ gridTemplateColumns: `repeat(${selected.length}, minmax(0, 1fr))` }}>
+                        {selected.map(variation => (
+                            <div key={variation.id} className="flex flex-col items-center min-h-0" onClick={(e) => e.stopPropagation()}>
+                                <img src={variation.image!} alt="Variation" className="flex-grow min-h-0 max-w-full object-contain rounded-md" />
+                                <button
+                                    onClick={() => { setIsComparing(false); onOpen(variation); }}
+                                    className="mt-2 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+                                >
+                                    Use #{variations.indexOf(variation) + 1}
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => setIsComparing(false)} className="absolute top-4 right-4 text-white bg-red-600 rounded-full w-8 h-8 flex items-center justify-center font-bold text-xl">&times;</button>
+                </div>
+            )}
+        </div>
+    );
+};
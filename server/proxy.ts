@@ -0,0 +1,190 @@
+import { createReadStream, existsSync } from "node:fs";
+import { stat } from "node:fs/promises";
+import http from "node:http";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { GenerateContentParameters } from "@google/genai";
+import { MODEL_NAME } from "../services/geminiRequest";
+
+const USAGE = `Usage: npm run proxy -- [options]
+
+Options:
+  --port <n>       Port to listen on (default PROXY_PORT, else 8787)
+  --host <name>    Interface to listen on (default PROXY_HOST, else localhost;
+                   0.0.0.0 for all)
+  --static <dir>   Also serve the built app from this directory (default dist)
+  --help           Show this message
+
+The browser sends requests to /api and the key stays on this machine.
+Run "npm run serve" to build the app for the proxy and start it.`;
+
+// Four reference images per character add up quickly once base64 encoded.
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: http.IncomingMessage): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, 'The request is too large.');
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'The request body is not valid JSON.');
+    }
+};
+
+/**
+ * Forwards a streamed generateContent request built by geminiRequest. Only the
+ * contents and the config fields geminiRequest sets (response modalities and
+ * aspect ratio) are taken from the browser: the model is fixed and everything
+ * else, such as tools or system instructions, is dropped, so the key cannot be
+ * used for anything else. Chunks are written as newline-delimited JSON as they
+ * arrive.
+ */
+const handleGenerate = async (ai: GoogleGenAI, req: http.IncomingMessage, res: http.ServerResponse) => {
+    const body = await readJson(req) as Partial<GenerateContentParameters> | null;
+    if (!body?.contents) throw new HttpError(400, 'The request has no contents.');
+    const { responseModalities, imageConfig } = body.config ?? {};
+
+    // Stop the upstream request when the browser gives up on this one.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    // Errors before the first chunk (a bad key, a rate limit) still get a status code.
+    const stream = await ai.models.generateContentStream({
+        model: MODEL_NAME,
+        contents: body.contents,
+        config: {
+            responseModalities,
+            ...(imageConfig && { imageConfig: { aspectRatio: imageConfig.aspectRatio } }),
+            abortSignal: controller.signal,
+        },
+    });
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    try {
+        for await (const chunk of stream) {
+            res.write(`${JSON.stringify(chunk)}\n`);
+        }
+    } catch (error) {
+        if (res.destroyed) return;
+        // Too late for a status code; the app reads this line as the error.
+        const status = error instanceof ApiError ? error.status : 502;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`${req.method} ${req.url} failed mid-stream:`, message);
+        res.write(`${JSON.stringify({ error: { status, message } })}\n`);
+    }
+    res.end();
+};
+
+const serveStatic = async (root: string, req: http.IncomingMessage, res: http.ServerResponse) => {
+    let urlPath: string;
+    try {
+        urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+        throw new HttpError(400, 'The path is not valid.');
+    }
+    let file = path.join(root, urlPath);
+    if (file !== root && !file.startsWith(root + path.sep)) throw new HttpError(404, 'Not found.');
+    // Unknown paths get the app itself.
+    if (!(await stat(file).catch(() => null))?.isFile()) file = path.join(root, 'index.html');
+    if (!existsSync(file)) throw new HttpError(404, 'Not found.');
+
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream' });
+    createReadStream(file).pipe(res);
+};
+
+const main = () => {
+    const { values } = parseArgs({
+        options: {
+            port: { type: 'string' },
+            host: { type: 'string' },
+            static: { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!apiKey) throw new Error('Set GEMINI_API_KEY in .env.local or the environment.');
+    const ai = new GoogleGenAI({ apiKey });
+
+    const host = values.host ?? process.env.PROXY_HOST ?? 'localhost';
+    const port = parseInt(values.port ?? process.env.PROXY_PORT ?? '8787', 10);
+    if (!(port > 0)) throw new Error('--port must be a port number.');
+    // npm runs scripts from the package root, where the app is built; paths on the command line are relative to where it was called.
+    const staticRoot = values.static ? path.resolve(process.env.INIT_CWD ?? process.cwd(), values.static) : path.resolve('dist');
+    const servesApp = existsSync(path.join(staticRoot, 'index.html'));
+
+    const server = http.createServer(async (req, res) => {
+        try {
+            if (req.url === '/api/status' && req.method === 'GET') {
+                // Also tells the app whether the key is accepted.
+                await ai.models.get({ model: MODEL_NAME });
+                sendJson(res, 200, { model: MODEL_NAME });
+            } else if (req.url === '/api/generate' && req.method === 'POST') {
+                await handleGenerate(ai, req, res);
+            } else if (servesApp && req.method === 'GET' && !req.url?.startsWith('/api/')) {
+                await serveStatic(staticRoot, req, res);
+            } else {
+                throw new HttpError(404, 'Not found.');
+            }
+        } catch (error) {
+            if (res.headersSent || res.destroyed) return;
+            // Gemini's own status is passed on so the app can tell a bad key from a rate limit.
+            const status = error instanceof HttpError || error instanceof ApiError ? error.status : 502;
+            const message = error instanceof Error ? error.message : String(error);
+            if (!(error instanceof HttpError)) console.error(`${req.method} ${req.url} failed:`, message);
+            sendJson(res, status, { error: { status, message } });
+        }
+    });
+
+    server.listen(port, host, () => {
+        console.log(`Gemini proxy listening on http://${host}:${port}/api`);
+        console.log(servesApp ? `Serving the app from ${staticRoot}` : `No built app in ${staticRoot}; only /api is served.`);
+    });
+    process.once('SIGINT', () => server.close());
+};
+
+try {
+    main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,34 @@
+/**
+ * The Gemini API key entered in the app. A remembered key is kept in
+ * localStorage; otherwise it lives in sessionStorage and is gone when the tab
+ * closes. For local development, the dev server can supply GEMINI_API_KEY as
+ * a fallback when started with VITE_EMBED_KEY=1; builds never include it.
+ */
+export type ApiKeySource = 'saved' | 'session' | 'build';
+
+export interface ApiKey {
+    value: string;
+    source: ApiKeySource;
+}
+
+const STORAGE_KEY = 'pose-painter:gemini-api-key';
+
+export const loadApiKey = (): ApiKey | null => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { value: saved, source: 'saved' };
+    const session = sessionStorage.getItem(STORAGE_KEY);
+    if (session) return { value: session, source: 'session' };
+    return process.env.API_KEY ? { value: process.env.API_KEY, source: 'build' } : null;
+};
+
+export const saveApiKey = (value: string, remember: boolean): ApiKey => {
+    forgetApiKey();
+    (remember ? localStorage : sessionStorage).setItem(STORAGE_KEY, value);
+    return { value, source: remember ? 'saved' : 'session' };
+};
+
+/** Removes the entered key. A build-time key, if there is one, applies again. */
+export const forgetApiKey = () => {
+    localStorage.removeItem(STORAGE_KEY);
+    sessionStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,105 @@
+import type { AspectRatio } from "../App";
+import type { ImageProvider } from "./imageProvider";
+
+export const ASPECT_RATIO_PRESETS: AspectRatio[] = ['1:1', '4:5', '5:4', '3:4', '4:3', '2:3', '3:2', '9:16', '16:9', '21:9'];
+
+/** Results whose width / height differs from the requested ratio by less than this fraction are left alone. */
+const RATIO_TOLERANCE = 0.01;
+
+const CANVAS_HEIGHT = 800;
+
+/** Width divided by height. */
+export const getRatioValue = (ratio: AspectRatio): number => {
+    const [width, height] = ratio.split(':').map(Number);
+    return width / height;
+};
+
+export const isAspectRatio = (value: unknown): value is AspectRatio => {
+    if (typeof value !== 'string') return false;
+    const match = value.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    return !!match && Number(match[1]) > 0 && Number(match[2]) > 0;
+};
+
+/** The sketch canvas resolution. Stored sketches are relative to it, so only its proportions matter. */
+export const getCanvasSize = (aspectRatio: AspectRatio) => ({
+    width: Math.round(CANVAS_HEIGHT * getRatioValue(aspectRatio)),
+    height: CANVAS_HEIGHT,
+});
+
+export const getClosestAspectRatio = (width: number, height: number, candidates: AspectRatio[] = ASPECT_RATIO_PRESETS): AspectRatio => {
+    const target = Math.log(width / height);
+    const distance = (ratio: AspectRatio) => Math.abs(Math.log(getRatioValue(ratio)) - target);
+    return candidates.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
+
+/** A preset when one is within tolerance, else the simplest `w:h` (up to 32:32) closest to the size. */
+export const getAspectRatioFor = (width: number, height: number): AspectRatio => {
+    const preset = getClosestAspectRatio(width, height);
+    if (Math.abs(getRatioValue(preset) / (width / height) - 1) < RATIO_TOLERANCE) return preset;
+
+    let best: AspectRatio = preset;
+    let bestError = Infinity;
+    for (let h = 1; h <= 32; h++) {
+        const w = Math.max(1, Math.round((width / height) * h));
+        const error = Math.abs(Math.log(w / h) - Math.log(width / height));
+        if (error < bestError - 1e-9) {
+            best = `${w}:${h}`;
+            bestError = error;
+        }
+    }
+    return best;
+};
+
+export type RatioFit = 'crop' | 'pad';
+
+/**
+ * The size of a `width` x `height` image at exactly `ratio`, center-cropped
+ * or padded, or null when it is already within tolerance.
+ */
+export const getFittedSize = (width: number, height: number, ratio: AspectRatio, fit: RatioFit): { width: number; height: number } | null => {
+    const target = getRatioValue(ratio);
+    if (Math.abs(target / (width / height) - 1) < RATIO_TOLERANCE) return null;
+    // Crop shrinks the longer side to the ratio; padding grows the shorter one.
+    const tooWide = width / height > target;
+    return tooWide === (fit === 'crop')
+        ? { width: Math.round(height * target), height }
+        : { width, height: Math.round(width / target) };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image.'));
+    image.src = src;
+});
+
+/**
+ * Returns the image (base64 PNG, no data URL prefix) at exactly `ratio`:
+ * center-cropped, or padded with black bars. Images already within
+ * tolerance are returned unchanged.
+ */
+export const fitImageToAspectRatio = async (base64: string, ratio: AspectRatio, fit: RatioFit): Promise<string> => {
+    const image = await loadImage(`data:image/png;base64,${base64}`);
+    const { naturalWidth: width, naturalHeight: height } = image;
+    const size = getFittedSize(width, height, ratio, fit);
+    if (!size) return base64;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/** Makes generated images match the requested aspect ratio, whatever the model returned. */
+export const withAspectRatio = (provider: ImageProvider, fit: RatioFit): ImageProvider => ({
+    ...provider,
+    generate: async (params, signal, onProgress) => {
+        const result = await provider.generate(params, signal, onProgress);
+        return { ...result, images: await Promise.all(result.images.map(image => fitImageToAspectRatio(image, params.aspectRatio, fit))) };
+    },
+});
@@ -0,0 +1,80 @@
+import { ProviderError } from "./imageProvider";
+import type { GenerationResult, ImageProvider, ProgressListener } from "./imageProvider";
+
+/** The error an aborted signal stands for: its reason if that is a ProviderError (e.g. a timeout), else a cancellation. */
+export const getAbortError = (signal: AbortSignal): ProviderError => (
+    signal.reason instanceof ProviderError ? signal.reason : new ProviderError('cancelled', 'The request was cancelled.')
+);
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw getAbortError(signal);
+};
+
+/** Settles like `promise`, but rejects as soon as `signal` aborts even if `promise` never settles. */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(getAbortError(signal));
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const delay = new Promise<void>(resolve => {
+        timer = setTimeout(resolve, ms);
+    });
+    return abortable(delay, signal).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Returns a signal that aborts when `parent` does, or after `timeoutMs` with
+ * a 'timeout' error. Call `dispose` once the request has settled.
+ */
+export const createTimeoutSignal = (parent: AbortSignal | undefined, timeoutMs: number) => {
+    const controller = new AbortController();
+    const onParentAbort = () => controller.abort(parent?.reason);
+    if (parent?.aborted) onParentAbort();
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+
+    const timer = timeoutMs > 0
+        ? setTimeout(() => controller.abort(new ProviderError('timeout', `The request timed out after ${Math.round(timeoutMs / 1000)} s.`)), timeoutMs)
+        : undefined;
+
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onParentAbort);
+        },
+    };
+};
+
+/** Limits every call of a provider to `timeoutMs` (0 = no limit) and makes it return promptly when cancelled. */
+export const withTimeout = (provider: ImageProvider, timeoutMs: number): ImageProvider => {
+    const run = async <P>(
+        call: (params: P, signal?: AbortSignal, onProgress?: ProgressListener) => Promise<GenerationResult>,
+        params: P,
+        signal?: AbortSignal,
+        onProgress?: ProgressListener,
+    ) => {
+        const request = createTimeoutSignal(signal, timeoutMs);
+        try {
+            return await abortable(call(params, request.signal, onProgress), request.signal);
+        } finally {
+            request.dispose();
+        }
+    };
+
+    return {
+        ...provider,
+        generate: (params, signal, onProgress) => run(provider.generate, params, signal, onProgress),
+        refine: (params, signal, onProgress) => run(provider.refine, params, signal, onProgress),
+        inpaint: (params, signal, onProgress) => run(provider.inpaint, params, signal, onProgress),
+    };
+};
@@ -0,0 +1,68 @@
+/**
+ * The app's IndexedDB database. Each store is created by the version that
+ * introduced it, so upgrading keeps existing data.
+ */
+const DB_NAME = 'pose-painter';
+const DB_VERSION = 2;
+
+export type StoreName = 'history' | 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            let blocked = false;
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains('history')) {
+                    const store = db.createObjectStore('history', { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains('usage')) {
+                    const store = db.createObjectStore('usage', { keyPath: 'id' });
+                    store.createIndex('startedAt', 'startedAt');
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // The caller was already told it failed; the next call opens it again.
+                if (blocked) {
+                    db.close();
+                    return;
+                }
+                // Let a newer version of the app in another tab upgrade the
+                // database; the next transaction here opens it again.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                if (!blocked) dbPromise = null;
+                reject(request.error);
+            };
+            request.onblocked = () => {
+                // Another tab holds an older version open. Fail instead of
+                // waiting until that tab is closed.
+                blocked = true;
+                dbPromise = null;
+                reject(new Error('Saved data is unavailable while Pose Painter is open in another tab with an older version. Close or reload the other tabs.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const runTransaction = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
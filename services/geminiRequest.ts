@@ -0,0 +1,150 @@
+import { Modality } from "@google/genai";
+import type { Content, GenerateContentParameters, Part } from "@google/genai";
+import { getClosestAspectRatio, getRatioValue } from "./aspectRatio";
+import type { AspectRatio } from "../App";
+import type { GenerateImageParams, RefineImageParams, InpaintImageParams } from "./imageProvider";
+
+/**
+ * Assembles Gemini requests from provider params. Nothing here touches the
+ * DOM or the network, so the browser app and the batch runner build exactly
+ * the same requests.
+ */
+export const MODEL_NAME = 'gemini-2.5-flash-image-preview';
+
+const SUPPORTED_ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+/** Base64 without a data URL prefix. Works wherever Blob and btoa exist, unlike FileReader. */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // Spreading the whole buffer would overflow the call stack for large images.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fileToGenerativePart = async (file: File): Promise<Part> => ({
+    inlineData: {
+        data: await blobToBase64(file),
+        mimeType: file.type,
+    },
+});
+
+const base64ToGenerativePart = (base64DataUrl: string): Part => {
+    const [meta, data] = base64DataUrl.split(',');
+    const mimeType = meta.match(/:(.*?);/)?.[1] ?? 'image/png';
+    return {
+        inlineData: {
+            data,
+            mimeType,
+        },
+    };
+};
+
+const IMAGE_CONFIG = { responseModalities: [Modality.IMAGE, Modality.TEXT] };
+
+export const buildGenerateRequest = async ({
+    characters,
+    bgImage,
+    prompt,
+    sketchImage,
+    aspectRatio,
+    characterSketches = [],
+}: GenerateImageParams): Promise<GenerateContentParameters> => {
+    const parts: Part[] = [{ text: prompt }];
+
+    // Order matters for some models, prompt first. Each character's images
+    // are preceded by a label so the model can tell the sets apart.
+    for (const [index, character] of characters.entries()) {
+        if (character.refImages.length === 0) continue;
+        parts.push({ text: `Character ${index + 1} references (${character.name || `Character ${index + 1}`}, ${character.color.name.toUpperCase()} sketch):` });
+        for (const file of character.refImages) {
+            parts.push(await fileToGenerativePart(file));
+        }
+    }
+    if (bgImage) {
+        parts.push({ text: 'Background image:' });
+        parts.push(await fileToGenerativePart(bgImage));
+    }
+
+    parts.push({ text: 'Pose sketch:' });
+    parts.push(base64ToGenerativePart(sketchImage));
+
+    // Isolated poses keep overlapping figures apart; the combined sketch still shows how they interact.
+    for (const { characterIndex, image, area } of characterSketches) {
+        const character = characters[characterIndex];
+        parts.push({ text: `Character ${characterIndex + 1} pose alone (${character.name || `Character ${characterIndex + 1}`}, ${character.color.name.toUpperCase()} sketch, ${area} of the frame):` });
+        parts.push(base64ToGenerativePart(image));
+    }
+
+    return {
+        model: MODEL_NAME,
+        contents: { parts },
+        config: {
+            ...IMAGE_CONFIG,
+            // Custom ratios get the nearest supported one; withAspectRatio trims the rest.
+            imageConfig: { aspectRatio: getClosestAspectRatio(getRatioValue(aspectRatio), 1, SUPPORTED_ASPECT_RATIOS) },
+        },
+    };
+};
+
+/**
+ * Replays the conversation that produced a result: the original prompt and
+ * image, every earlier refinement instruction with its output, and finally
+ * the new instruction.
+ */
+export const buildRefineRequest = ({
+    rootPrompt,
+    rootImage,
+    turns,
+    instruction,
+}: RefineImageParams): GenerateContentParameters => {
+    const contents: Content[] = [
+        { role: 'user', parts: [{ text: rootPrompt }] },
+        { role: 'model', parts: [base64ToGenerativePart(rootImage)] },
+    ];
+    for (const turn of turns) {
+        contents.push({ role: 'user', parts: [{ text: turn.instruction }] });
+        contents.push({ role: 'model', parts: [base64ToGenerativePart(turn.image)] });
+    }
+    contents.push({
+        role: 'user',
+        parts: [{ text: `Edit the previous image: ${instruction}\nKeep everything else (characters, poses, composition and style) unchanged unless the instruction says otherwise.` }],
+    });
+
+    return { model: MODEL_NAME, contents, config: IMAGE_CONFIG };
+};
+
+export const buildInpaintRequest = ({
+    image,
+    mask,
+    instruction,
+}: InpaintImageParams): GenerateContentParameters => {
+    const prompt = `
+You are an expert image editor. Edit only a region of the provided image.
+
+**Edit Instruction:**
+${instruction}
+
+**Instructions:**
+1.  The first image is the image to edit.
+2.  The second image is a black-and-white mask of the same size. WHITE marks the region you may change; BLACK marks pixels that must stay exactly as they are.
+3.  Apply the edit instruction inside the white region only, blending it seamlessly with the surrounding pixels.
+4.  Return the full edited image at the same size and framing as the original.
+`;
+
+    return {
+        model: MODEL_NAME,
+        contents: {
+            parts: [
+                { text: prompt },
+                { text: 'Image to edit:' },
+                base64ToGenerativePart(image),
+                { text: 'Mask:' },
+                base64ToGenerativePart(mask),
+            ],
+        },
+        config: IMAGE_CONFIG,
+    };
+};
@@ -1,128 +1,299 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { Content, GenerateContentParameters, GenerateContentResponse, Part, SafetyRating } from "@google/genai";
+import { ProviderError } from "./imageProvider";
+import { getAbortError } from "./cancellation";
+import { MODEL_NAME, buildGenerateRequest, buildInpaintRequest, buildRefineRequest } from "./geminiRequest";
+import type { GenerationResult, ImageProvider, ProgressListener, ProviderAction, ProviderErrorCode, UsageListener, UsageReport } from "./imageProvider";
 
-import { GoogleGenAI, Modality } from "@google/genai";
+export const GEMINI_PROVIDER_NAME = 'Google Gemini';
 
-interface GenerateImageParams {
-    refImage1: File | null;
-    refImage2: File | null;
-    bgImage: File | null;
-    prompt1: string;
-    prompt2: string;
-    promptOverall: string;
-    sketchImage: string; // base64 data URL
-}
-
-const API_KEY = process.env.API_KEY;
+/**
+ * Where requests go: straight to Google with an API key, or through the proxy
+ * server (server/proxy.ts), which holds the key so the browser never sees it.
+ */
+export type GeminiConnection =
+    | { type: 'key'; apiKey: string | undefined }
+    | { type: 'proxy'; url: string };
 
-if (!API_KEY) {
-    throw new Error("Missing API_KEY environment variable.");
+interface Transport {
+    /** Yields the response in chunks as the model produces it. */
+    streamContent: (request: GenerateContentParameters, signal?: AbortSignal) => Promise<AsyncIterable<GenerateContentResponse>>;
+    /** Resolves when requests can be made, e.g. the key is accepted. */
+    check: (signal?: AbortSignal) => Promise<void>;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const createKeyTransport = (apiKey: string | undefined): Transport => {
+    let ai: GoogleGenAI | null = null;
 
-const fileToGenerativePart = async (file: File) => {
-    const base64EncodedDataPromise = new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const result = reader.result as string;
-            // remove the `data:...;base64,` prefix
-            resolve(result.split(',')[1]);
-        };
-        reader.readAsDataURL(file);
-    });
+    // The client is created on first use so the app (and other providers) keep
+    // working when no key is configured.
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new ProviderError('auth', 'No Gemini API key is set.');
+        }
+        ai ??= new GoogleGenAI({ apiKey });
+        return ai;
+    };
 
     return {
-        inlineData: {
-            data: await base64EncodedDataPromise,
-            mimeType: file.type,
+        streamContent: (request, signal) => getClient().models.generateContentStream({
+            ...request,
+            config: { ...request.config, abortSignal: signal },
+        }),
+        check: async (signal) => {
+            await getClient().models.get({ model: MODEL_NAME, config: { abortSignal: signal } });
         },
     };
 };
 
-const base64ToGenerativePart = (base64DataUrl: string) => {
-    const [meta, data] = base64DataUrl.split(',');
-    const mimeType = meta.match(/:(.*?);/)?.[1] ?? 'image/png';
+// The proxy streams one JSON chunk per line. A failure after the first chunk arrives as an `error` line.
+async function* readChunks(response: Response): AsyncGenerator<GenerateContentResponse> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += value ?? '';
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop()!;
+        for (const line of lines.filter(line => line.trim())) {
+            const chunk = JSON.parse(line);
+            if (chunk.error) throw new ApiError({ status: chunk.error.status, message: chunk.error.message });
+            yield chunk;
+        }
+        if (done) return;
+    }
+}
+
+const createProxyTransport = (url: string): Transport => {
+    const send = async (path: string, init: RequestInit): Promise<Response> => {
+        let response: Response;
+        try {
+            response = await fetch(`${url.replace(/\/+$/, '')}${path}`, init);
+        } catch (error) {
+            if (init.signal?.aborted) throw error;
+            throw new ProviderError('network', `Could not reach the proxy server at ${url}.`);
+        }
+        if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            // The proxy passes on Gemini's status, so these map like direct SDK errors.
+            throw new ApiError({ status: response.status, message: body?.error?.message ?? response.statusText });
+        }
+        return response;
+    };
+
     return {
-        inlineData: {
-            data,
-            mimeType,
+        streamContent: async (request, signal) => readChunks(await send('/generate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ contents: request.contents, config: request.config }),
+            signal,
+        })),
+        check: async (signal) => {
+            await send('/status', { signal });
         },
     };
 };
 
-export const generateImage = async ({
-    refImage1,
-    refImage2,
-    bgImage,
-    prompt1,
-    prompt2,
-    promptOverall,
-    sketchImage,
-}: GenerateImageParams): Promise<string | null> => {
-    try {
-        const model = 'gemini-2.5-flash-image-preview';
+const createTransport = (connection: GeminiConnection): Transport => (
+    connection.type === 'proxy' ? createProxyTransport(connection.url) : createKeyTransport(connection.apiKey)
+);
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const formatCategory = (value: string) => value.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
 
-        const combinedPrompt = `
-You are an expert AI image generator. Your task is to create a single, cohesive image based on the provided elements. Follow these instructions carefully:
+const getBlockedCategory = (ratings: SafetyRating[] | undefined, fallback: string) => {
+    const rating = ratings?.find(item => item.blocked) ?? ratings?.find(item => item.probability === 'HIGH');
+    return formatCategory(rating?.category ?? fallback);
+};
 
-**Overall Composition Prompt:**
-${promptOverall || "A fantasy art scene."}
+const getModelText = (parts: Part[]) => parts
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join('\n')
+    .trim();
 
----
+const getImages = (parts: Part[]) => parts.flatMap(part => part.inlineData?.data ? [part.inlineData.data] : []);
 
-**Character 1 (Associated with Reference Image 1 and RED sketch):**
-- **Description:** ${prompt1 || "The character from reference image 1."}
-- **Pose:** The pose for this character is indicated by the **RED** lines in the sketch image.
+const getResponseParts = (response: GenerateContentResponse) => (response.candidates ?? []).flatMap(candidate => candidate.content?.parts ?? []);
 
-**Character 2 (Associated with Reference Image 2 and BLUE sketch):**
-- **Description:** ${prompt2 || "The character from reference image 2."}
-- **Pose:** The pose for this character is indicated by the **BLUE** lines in the sketch image.
+/** Returns every image in the response with the model's text, or throws explaining why there is no image. */
+const extractResult = (response: GenerateContentResponse): GenerationResult => {
+    const parts = getResponseParts(response);
+    const modelText = getModelText(parts) || undefined;
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        const category = getBlockedCategory(response.promptFeedback?.safetyRatings, blockReason);
+        throw new ProviderError('safety', `The prompt was blocked by the safety filter (${category}).`, { category, modelText });
+    }
 
----
+    const images = getImages(parts);
+    if (images.length > 0) return { images, text: modelText ?? '' };
 
-**Instructions:**
-1.  Use the provided reference images to understand the appearance of the characters.
-2.  Use the sketch image to determine the exact pose and placement of each character. The RED sketch is for Character 1, and the BLUE sketch is for Character 2.
-3.  Use the optional background image as the setting. If no background image is provided, create a background that fits the "Overall Composition Prompt".
-4.  Synthesize all these elements into a single, high-quality image.
-`;
+    const blocked = response.candidates?.find(candidate => SAFETY_FINISH_REASONS.includes(candidate.finishReason ?? ''));
+    if (blocked) {
+        const category = getBlockedCategory(blocked.safetyRatings, blocked.finishReason!);
+        throw new ProviderError('safety', `The image was blocked by the safety filter (${category}).`, { category, modelText });
+    }
+    throw new ProviderError(
+        'no-image',
+        modelText ? 'The model replied with text instead of an image.' : 'The model did not return an image.',
+        { modelText },
+    );
+};
+
+/**
+ * Collects streamed chunks into one response. Text arrives in fragments, so
+ * consecutive text parts are joined back together.
+ */
+const mergeChunk = (merged: GenerateContentResponse, chunk: GenerateContentResponse): GenerateContentResponse => {
+    const parts = [...getResponseParts(merged)];
+    for (const part of getResponseParts(chunk)) {
+        const last = parts[parts.length - 1];
+        if (part.text !== undefined && last?.text !== undefined && !!part.thought === !!last.thought) {
+            parts[parts.length - 1] = { ...last, text: last.text + part.text };
+        } else {
+            parts.push(part);
+        }
+    }
+    // Finish reason and safety ratings come with the last chunk, usage with the last few.
+    const candidate = chunk.candidates?.[0] ?? merged.candidates?.[0];
+    return {
+        ...merged,
+        candidates: [{ ...merged.candidates?.[0], ...candidate, content: { role: 'model', parts } }],
+        promptFeedback: chunk.promptFeedback ?? merged.promptFeedback,
+        usageMetadata: chunk.usageMetadata ?? merged.usageMetadata,
+    } as GenerateContentResponse;
+};
 
-        const parts: any[] = [{ text: combinedPrompt }];
+// 429 responses say how long to wait, e.g. "retryDelay": "23s".
+const parseRetryDelay = (message: string) => {
+    const seconds = message.match(/retryDelay\W+(\d+(?:\.\d+)?)s/)?.[1];
+    return seconds ? parseFloat(seconds) * 1000 : undefined;
+};
 
-        // Order matters for some models, prompt first.
-        if (refImage1) {
-            parts.push(await fileToGenerativePart(refImage1));
+/** Maps SDK and network failures onto typed provider errors. */
+const toProviderError = (error: unknown, fallbackMessage: string): ProviderError => {
+    if (error instanceof ProviderError) return error;
+    if (error instanceof ApiError) {
+        if (error.status === 401 || error.status === 403 || /API key/i.test(error.message)) {
+            return new ProviderError('auth', 'The Gemini API key was rejected.');
         }
-        if (refImage2) {
-            parts.push(await fileToGenerativePart(refImage2));
+        if (error.status === 429) {
+            return new ProviderError('quota', 'The Gemini rate limit or quota was exceeded.', { retryAfterMs: parseRetryDelay(error.message) });
         }
-        if (bgImage) {
-            parts.push(await fileToGenerativePart(bgImage));
+        if (error.status >= 500) {
+            return new ProviderError('unavailable', `The Gemini service is unavailable (HTTP ${error.status}).`);
         }
-        
-        parts.push(base64ToGenerativePart(sketchImage));
-
-
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: { parts },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-        
-        // Find the first image part in the response
-        for (const candidate of response.candidates || []) {
-            for (const part of candidate.content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    return part.inlineData.data;
-                }
-            }
+        if (error.status === 400) {
+            return new ProviderError('invalid-input', 'Gemini rejected the request as invalid.');
         }
+    }
+    if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+        return new ProviderError('network', 'Could not reach the Gemini API.');
+    }
+    return new ProviderError('failed', fallbackMessage);
+};
+
+const ACTION_LABELS: { [action in ProviderAction]: string } = {
+    generate: 'generate image',
+    refine: 'refine image',
+    inpaint: 'edit the selected region',
+};
+
+const getParts = (contents: GenerateContentParameters['contents']): Part[] => (
+    (Array.isArray(contents) ? contents : [contents]).flatMap(content => (content as Content).parts ?? [])
+);
+
+const countImages = (parts: Part[]) => parts.filter(part => part.inlineData?.data).length;
 
-        return null;
+/** Measures a request from what was sent and what came back; token counts are Gemini's own. */
+const getUsage = (request: GenerateContentParameters, response: GenerateContentResponse | null, responseBytes: number, action: ProviderAction, startedAt: number, error: ProviderErrorCode | null): UsageReport => {
+    const usage = response?.usageMetadata;
+    return {
+        providerId: 'gemini',
+        model: MODEL_NAME,
+        action,
+        startedAt,
+        latencyMs: Date.now() - startedAt,
+        inputTokens: usage?.promptTokenCount ?? null,
+        // Thinking is billed as output.
+        outputTokens: usage ? (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) : null,
+        inputImages: countImages(getParts(request.contents)),
+        outputImages: response ? countImages(getResponseParts(response)) : 0,
+        requestBytes: JSON.stringify(request.contents).length,
+        responseBytes,
+        error,
+    };
+};
 
+/**
+ * Sends a request built by geminiRequest and streams the response, passing
+ * the text and images received so far to `onProgress`. Resolves to all
+ * images, or throws a ProviderError. Every request that was sent is reported
+ * to `onUsage`.
+ */
+const requestImages = async (
+    transport: Transport,
+    action: ProviderAction,
+    buildRequest: () => GenerateContentParameters | Promise<GenerateContentParameters>,
+    signal?: AbortSignal,
+    onProgress?: ProgressListener,
+    onUsage?: UsageListener,
+): Promise<GenerationResult> => {
+    const startedAt = Date.now();
+    let request: GenerateContentParameters | null = null;
+    let response: GenerateContentResponse | null = null;
+    let responseBytes = 0;
+    let errorCode: ProviderErrorCode | null = null;
+    try {
+        request = await buildRequest();
+        for await (const chunk of await transport.streamContent(request, signal)) {
+            response = mergeChunk(response ?? {} as GenerateContentResponse, chunk);
+            responseBytes += JSON.stringify(chunk).length;
+            const parts = getResponseParts(response);
+            onProgress?.({ images: getImages(parts), text: getModelText(parts) });
+        }
+        return extractResult(response ?? {} as GenerateContentResponse);
     } catch (error) {
-        console.error("Error generating image with Gemini:", error);
-        throw new Error("Failed to generate image. Please check your inputs and API key.");
+        const providerError = signal?.aborted ? getAbortError(signal) : toProviderError(error, `Failed to ${ACTION_LABELS[action]}.`);
+        if (!signal?.aborted) console.error(`Error trying to ${ACTION_LABELS[action]} with Gemini:`, error);
+        errorCode = providerError.code;
+        throw providerError;
+    } finally {
+        if (request) onUsage?.(getUsage(request, response, responseBytes, action, startedAt, errorCode));
     }
 };
+
+/**
+ * Checks that the connection works before it is used: that the key is
+ * accepted, or that the proxy server answers. Throws a ProviderError if not.
+ */
+export const checkGeminiConnection = async (connection: GeminiConnection, signal?: AbortSignal): Promise<void> => {
+    try {
+        await createTransport(connection).check(signal);
+    } catch (error) {
+        if (signal?.aborted) throw getAbortError(signal);
+        throw toProviderError(error, 'Could not check the Gemini connection.');
+    }
+};
+
+/**
+ * Refine replays the conversation that produced a result; inpaint asks the
+ * model to repaint only the masked region. The caller composites inpainting
+ * results back so that unmasked pixels stay untouched, since the model may
+ * still alter them slightly.
+ */
+export const createGeminiProvider = (connection: GeminiConnection, onUsage?: UsageListener): ImageProvider => {
+    const transport = createTransport(connection);
+    return {
+        id: 'gemini',
+        name: GEMINI_PROVIDER_NAME,
+        model: MODEL_NAME,
+        capabilities: { refine: true, inpaint: true },
+        generate: (params, signal, onProgress) => requestImages(transport, 'generate', () => buildGenerateRequest(params), signal, onProgress, onUsage),
+        refine: (params, signal, onProgress) => requestImages(transport, 'refine', () => buildRefineRequest(params), signal, onProgress, onUsage),
+        inpaint: (params, signal, onProgress) => requestImages(transport, 'inpaint', () => buildInpaintRequest(params), signal, onProgress, onUsage),
+    };
+};
@@ -0,0 +1,58 @@
+import type { CharacterInput, CharacterSketch, GenerateImageParams } from "./imageProvider";
+import type { HistoryEntry } from "./historyStore";
+import { BUILT_IN_TEMPLATES, buildPrompt } from "./promptTemplates";
+import type { PromptTemplate } from "./promptTemplates";
+import { toCanvasLayer } from "./sketchLayers";
+import { getCanvasSize } from "./aspectRatio";
+import { getPlacementNotes } from "./shapes";
+import { analyzeSketch, describeBounds, isolateColor } from "./sketchAnalysis";
+import type { SketchLayer } from "./sketchLayers";
+
+/**
+ * Everything a generation is made from, with `layers` relative to the canvas
+ * size. The app builds it from its state, the batch runner from a manifest.
+ */
+export type GenerationInputs = Pick<HistoryEntry, 'aspectRatio' | 'characters' | 'bgImage' | 'promptOverall' | 'prompt' | 'sketchImage' | 'characterSketches' | 'layers'>;
+
+/** Adds the layout described by the sketch's placement boxes to each character. */
+export const getCharacterInputs = (inputs: Pick<GenerationInputs, 'aspectRatio' | 'characters' | 'layers'>): CharacterInput[] => {
+    const size = getCanvasSize(inputs.aspectRatio);
+    const layers = (inputs.layers ?? []).map(layer => toCanvasLayer(layer, size));
+    const placements = getPlacementNotes(layers, size.width, size.height);
+    return inputs.characters.map(character => ({ ...character, placement: placements[character.color.value] ?? null }));
+};
+
+export const renderGenerationPrompt = (inputs: GenerationInputs, template: PromptTemplate): string => buildPrompt(template, {
+    characters: getCharacterInputs(inputs),
+    promptOverall: inputs.promptOverall,
+    hasBackground: !!inputs.bgImage,
+    aspectRatio: inputs.aspectRatio,
+});
+
+// Entries saved before prompt templates existed were generated with the standard instructions.
+export const getGenerationPrompt = (inputs: GenerationInputs): string => inputs.prompt ?? renderGenerationPrompt(inputs, BUILT_IN_TEMPLATES[0]);
+
+/**
+ * Renders each drawn character's marks on their own. `render` turns relative
+ * layers into a PNG data URL, so the app can use a canvas and the batch runner
+ * its software rasterizer.
+ */
+export const createCharacterSketches = (inputs: Pick<GenerationInputs, 'aspectRatio' | 'characters' | 'layers'>, render: (layers: SketchLayer[]) => string): CharacterSketch[] => {
+    const layers = inputs.layers ?? [];
+    const { bounds } = analyzeSketch(layers, inputs.aspectRatio, inputs.characters);
+    const size = getCanvasSize(inputs.aspectRatio);
+    return inputs.characters.flatMap((character, characterIndex) => {
+        const area = bounds[character.color.value];
+        return area ? [{ characterIndex, image: render(isolateColor(layers, character.color.value)), area: describeBounds(area, size) }] : [];
+    });
+};
+
+export const createGenerateParams = (inputs: GenerationInputs): GenerateImageParams => ({
+    characters: getCharacterInputs(inputs),
+    bgImage: inputs.bgImage,
+    promptOverall: inputs.promptOverall,
+    prompt: getGenerationPrompt(inputs),
+    sketchImage: inputs.sketchImage,
+    aspectRatio: inputs.aspectRatio,
+    characterSketches: inputs.characterSketches,
+});
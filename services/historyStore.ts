@@ -0,0 +1,63 @@
+import type { AspectRatio } from "../App";
+import type { Stroke } from "../components/SketchPad";
+import type { SketchColor } from "./sketchColors";
+import type { Skeleton } from "./skeleton";
+import type { CharacterSketch } from "./imageProvider";
+import { createLegacyLayer, normalizeLayer, toRelativeLayer } from "./sketchLayers";
+import type { SketchLayer } from "./sketchLayers";
+import { getCanvasSize } from "./aspectRatio";
+import { runTransaction } from "./database";
+
+export interface HistoryCharacter {
+    id?: string; // absent in entries saved before sketch layers existed
+    name: string;
+    prompt: string;
+    color: SketchColor;
+    refImages: File[];
+}
+
+export interface HistoryEntry {
+    id: string;
+    createdAt: number;
+    model: string;
+    aspectRatio: AspectRatio;
+    characters: HistoryCharacter[];
+    bgImage: File | null;
+    promptOverall: string;
+    prompt?: string; // the rendered instructions; absent in entries saved before prompt templates
+    sketchImage: string; // base64 data URL
+    /** Each character's pose on its own, when they were sent separately. */
+    characterSketches?: CharacterSketch[];
+    layers?: SketchLayer[];
+    /** Set once `layers` are relative to the canvas size (see toRelativeLayer); older entries use canvas pixels. */
+    relativeLayers?: boolean;
+    // Entries saved before sketch layers existed store a flat sketch instead.
+    strokes?: Stroke[];
+    skeletons?: Skeleton[];
+    resultImage: string; // base64 data URL
+    /** What the model wrote alongside the image, if anything. */
+    modelText?: string;
+    favorite: boolean;
+}
+
+/** Brings entries saved by older versions to the current layer format. */
+const upgradeEntry = (entry: HistoryEntry): HistoryEntry => {
+    if (entry.relativeLayers) return entry;
+    const size = getCanvasSize(entry.aspectRatio);
+    const layers = entry.layers ?? [createLegacyLayer(entry.strokes ?? [], entry.skeletons)];
+    return { ...entry, layers: layers.map(layer => toRelativeLayer(normalizeLayer(layer), size)), relativeLayers: true };
+};
+
+/** Returns all saved generations, newest first. */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const entries = await runTransaction<HistoryEntry[]>('history', 'readonly', store => store.index('createdAt').getAll());
+    return entries.map(upgradeEntry).reverse();
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+    await runTransaction('history', 'readwrite', store => store.put(entry));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    await runTransaction('history', 'readwrite', store => store.delete(id));
+};
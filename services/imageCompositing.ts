@@ -0,0 +1,77 @@
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image.'));
+    image.src = src;
+});
+
+const getImageData = (image: HTMLImageElement, width: number, height: number): ImageData => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+// A mask pixel counts as "editable" when it is closer to white than black.
+const isMasked = (mask: Uint8ClampedArray, offset: number) => mask[offset] > 127;
+
+/** Counts pixels outside the mask that differ between two images of the same size. */
+const countChangedOutsideMask = (original: ImageData, result: ImageData, mask: ImageData): number => {
+    let changed = 0;
+    for (let i = 0; i < original.data.length; i += 4) {
+        if (isMasked(mask.data, i)) continue;
+        if (original.data[i] !== result.data[i]
+            || original.data[i + 1] !== result.data[i + 1]
+            || original.data[i + 2] !== result.data[i + 2]
+            || original.data[i + 3] !== result.data[i + 3]) {
+            changed++;
+        }
+    }
+    return changed;
+};
+
+/**
+ * Merges an edited image into the original so that only masked pixels change.
+ * The edited image is scaled to the original's size, masked pixels are taken
+ * from it and every other pixel is copied verbatim from the original. The
+ * encoded result is decoded again and checked against the original; an error
+ * is thrown if any pixel outside the mask differs.
+ */
+export const compositeWithMask = async (originalSrc: string, editedSrc: string, maskSrc: string): Promise<string> => {
+    const [original, edited, mask] = await Promise.all([loadImage(originalSrc), loadImage(editedSrc), loadImage(maskSrc)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    const originalData = getImageData(original, width, height);
+    const editedData = getImageData(edited, width, height);
+    const maskData = getImageData(mask, width, height);
+
+    const output = new ImageData(new Uint8ClampedArray(originalData.data), width, height);
+    for (let i = 0; i < output.data.length; i += 4) {
+        if (isMasked(maskData.data, i)) {
+            output.data[i] = editedData.data[i];
+            output.data[i + 1] = editedData.data[i + 1];
+            output.data[i + 2] = editedData.data[i + 2];
+            output.data[i + 3] = editedData.data[i + 3];
+        }
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    ctx.putImageData(output, 0, 0);
+    const result = canvas.toDataURL('image/png');
+
+    const verification = getImageData(await loadImage(result), width, height);
+    const changed = countChangedOutsideMask(originalData, verification, maskData);
+    if (changed > 0) {
+        throw new Error(`Compositing changed ${changed} pixels outside the mask.`);
+    }
+
+    return result;
+};
@@ -0,0 +1,324 @@
+import type { AspectRatio } from "../App";
+import type { SketchColor } from "./sketchColors";
+import type { SketchLayer } from "./sketchLayers";
+
+/**
+ * Exported results carry the parameters that produced them, so an image can
+ * be dropped back into the app to restore its inputs. The JSON below goes in
+ * a PNG iTXt chunk, or in XMP for JPEG (APP1 segment) and WebP ("XMP " chunk).
+ * Input images are not embedded, only their SHA-256 hashes, so matching
+ * inputs can be recognized on re-import.
+ */
+export const METADATA_FORMAT = 'pose-painter-generation';
+export const METADATA_VERSION = 1;
+
+export interface GenerationMetadata {
+    format: typeof METADATA_FORMAT;
+    version: number;
+    exportedAt: string;
+    model: string;
+    aspectRatio: AspectRatio;
+    promptOverall: string;
+    /** The full instructions sent to the model. */
+    prompt: string;
+    characters: {
+        id?: string;
+        name: string;
+        prompt: string;
+        color: SketchColor;
+        refImages: string[]; // SHA-256 hashes
+    }[];
+    background: string | null; // SHA-256 hash
+    sketch: string; // SHA-256 hash of the sketch image sent
+    /** Instructions applied on top of the generated image, oldest first. */
+    refinements: string[];
+    /** Relative sketch layers; left out when they don't fit the format's metadata limit. */
+    layers?: SketchLayer[];
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; mimeType: string; extension: string; lossy: boolean }[] = [
+    { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+    { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+    { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+];
+
+const APP_NAME = 'Pose Painter';
+const PNG_KEYWORD = 'pose-painter:generation';
+const XMP_NAMESPACE = 'urn:pose-painter:ns:1.0/';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG segment holds at most 65535 bytes, including its 2 length bytes and the XMP header.
+const MAX_JPEG_XMP_BYTES = 65535 - 2 - XMP_HEADER.length;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+const readUint32BE = (bytes: Uint8Array, offset: number) => new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+const readUint32LE = (bytes: Uint8Array, offset: number) => new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+const readAscii = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+const asciiBytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+// --- PNG ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xFFFFFFFF;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/** A PNG chunk: length, type, data and CRC. */
+export const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(asciiBytes(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// Uncompressed, with no language tag or translated keyword.
+const createITxtChunk = (keyword: string, text: string) => createPngChunk('iTXt', concat([
+    asciiBytes(`${keyword}\0\0\0\0\0`),
+    encoder.encode(text),
+]));
+
+const PNG_SIGNATURE_LENGTH = 8;
+const IHDR_CHUNK_LENGTH = 25;
+
+const embedInPng = (png: Uint8Array, metadata: GenerationMetadata): Uint8Array => {
+    const insertAt = PNG_SIGNATURE_LENGTH + IHDR_CHUNK_LENGTH;
+    return concat([
+        png.subarray(0, insertAt),
+        createPngChunk('tEXt', asciiBytes(`Software\0${APP_NAME}`)),
+        createITxtChunk('Description', metadata.prompt),
+        createITxtChunk(PNG_KEYWORD, JSON.stringify(metadata)),
+        png.subarray(insertAt),
+    ]);
+};
+
+const readFromPng = (png: Uint8Array): string | null => {
+    let offset = PNG_SIGNATURE_LENGTH;
+    while (offset + 12 <= png.length) {
+        const length = readUint32BE(png, offset);
+        const type = readAscii(png, offset + 4, 4);
+        if (type === 'iTXt') {
+            const data = png.subarray(offset + 8, offset + 8 + length);
+            const keywordEnd = data.indexOf(0);
+            // Skip the compression flag and method, then the language tag and translated keyword.
+            if (readAscii(data, 0, keywordEnd) === PNG_KEYWORD && data[keywordEnd + 1] === 0) {
+                const languageEnd = data.indexOf(0, keywordEnd + 3);
+                const translatedEnd = data.indexOf(0, languageEnd + 1);
+                return decoder.decode(data.subarray(translatedEnd + 1));
+            }
+        }
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+    return null;
+};
+
+// --- XMP (JPEG and WebP) ---
+
+const escapeXml = (text: string) => text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[char]!));
+
+const createXmpPacket = (metadata: GenerationMetadata) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:pp="${XMP_NAMESPACE}">
+   <xmp:CreatorTool>${APP_NAME}</xmp:CreatorTool>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+   <pp:generation>${escapeXml(JSON.stringify(metadata))}</pp:generation>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const readFromXmp = (xmp: string): string | null => {
+    const document = new DOMParser().parseFromString(xmp, 'application/xml');
+    return document.getElementsByTagNameNS(XMP_NAMESPACE, 'generation')[0]?.textContent ?? null;
+};
+
+// --- JPEG ---
+
+const embedInJpeg = (jpeg: Uint8Array, xmp: Uint8Array): Uint8Array => {
+    if (xmp.length > MAX_JPEG_XMP_BYTES) {
+        throw new Error('The generation metadata is too large for a JPEG file.');
+    }
+    const segment = new Uint8Array(4 + XMP_HEADER.length + xmp.length);
+    new DataView(segment.buffer).setUint16(0, 0xFFE1);
+    new DataView(segment.buffer).setUint16(2, segment.length - 2);
+    segment.set(asciiBytes(XMP_HEADER), 4);
+    segment.set(xmp, 4 + XMP_HEADER.length);
+
+    // Keep a JFIF (APP0) segment first, as readers expect.
+    let insertAt = 2;
+    if (jpeg[2] === 0xFF && jpeg[3] === 0xE0) {
+        insertAt += 2 + ((jpeg[4] << 8) | jpeg[5]);
+    }
+    return concat([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
+
+const readFromJpeg = (jpeg: Uint8Array): string | null => {
+    let offset = 2;
+    while (offset + 4 <= jpeg.length && jpeg[offset] === 0xFF) {
+        const marker = jpeg[offset + 1];
+        // Start of scan: only image data follows.
+        if (marker === 0xDA) break;
+        const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+        if (marker === 0xE1 && readAscii(jpeg, offset + 4, XMP_HEADER.length) === XMP_HEADER) {
+            const start = offset + 4 + XMP_HEADER.length;
+            return readFromXmp(decoder.decode(jpeg.subarray(start, offset + 2 + length)));
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+// --- WebP ---
+
+const VP8X_XMP_FLAG = 0x04;
+const VP8X_ALPHA_FLAG = 0x10;
+
+const createRiffChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(asciiBytes(type), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+const readRiffChunks = (webp: Uint8Array) => {
+    const chunks: { type: string; data: Uint8Array }[] = [];
+    let offset = 12;
+    while (offset + 8 <= webp.length) {
+        const size = readUint32LE(webp, offset + 4);
+        chunks.push({ type: readAscii(webp, offset, 4), data: webp.subarray(offset + 8, offset + 8 + size) });
+        offset += 8 + size + (size % 2);
+    }
+    return chunks;
+};
+
+/** Converts a simple WebP to the extended format if needed and adds an XMP chunk. */
+const embedInWebp = (webp: Uint8Array, xmp: Uint8Array, width: number, height: number): Uint8Array => {
+    const chunks = readRiffChunks(webp).filter(chunk => chunk.type !== 'XMP ');
+    let header = chunks.find(chunk => chunk.type === 'VP8X');
+    if (!header) {
+        const data = new Uint8Array(10);
+        const image = chunks[0];
+        // A lossless bitstream records whether it uses alpha in bit 28 after its signature byte.
+        if (image?.type === 'VP8L' && (readUint32LE(image.data, 1) >>> 28) & 1) data[0] |= VP8X_ALPHA_FLAG;
+        const view = new DataView(data.buffer);
+        view.setUint16(4, (width - 1) & 0xFFFF, true);
+        data[6] = ((width - 1) >> 16) & 0xFF;
+        view.setUint16(7, (height - 1) & 0xFFFF, true);
+        data[9] = ((height - 1) >> 16) & 0xFF;
+        header = { type: 'VP8X', data };
+        chunks.unshift(header);
+    }
+    header.data = Uint8Array.from(header.data);
+    header.data[0] |= VP8X_XMP_FLAG;
+
+    const body = concat([asciiBytes('WEBP'), ...chunks.map(chunk => createRiffChunk(chunk.type, chunk.data)), createRiffChunk('XMP ', xmp)]);
+    const riff = new Uint8Array(8);
+    riff.set(asciiBytes('RIFF'), 0);
+    new DataView(riff.buffer).setUint32(4, body.length, true);
+    return concat([riff, body]);
+};
+
+const readFromWebp = (webp: Uint8Array): string | null => {
+    const chunk = readRiffChunks(webp).find(item => item.type === 'XMP ');
+    return chunk ? readFromXmp(decoder.decode(chunk.data)) : null;
+};
+
+// --- Export and import ---
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image.'));
+    image.src = src;
+});
+
+/** Encodes an image in `format` (quality 0..1 for lossy formats) with the metadata embedded. */
+export const exportImage = async (src: string, format: ExportFormat, quality: number, metadata: GenerationMetadata): Promise<Blob> => {
+    const { mimeType, lossy } = EXPORT_FORMATS.find(item => item.id === format)!;
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    if (format === 'jpeg') {
+        // JPEG has no transparency; flatten onto white rather than black.
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(image, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, lossy ? quality : undefined));
+    if (!blob || blob.type !== mimeType) {
+        throw new Error(`This browser cannot encode ${format.toUpperCase()} images.`);
+    }
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    let output: Uint8Array;
+    if (format === 'png') {
+        output = embedInPng(bytes, metadata);
+    } else {
+        let xmp = encoder.encode(createXmpPacket(metadata));
+        if (format === 'jpeg' && xmp.length > MAX_JPEG_XMP_BYTES) {
+            xmp = encoder.encode(createXmpPacket({ ...metadata, layers: undefined }));
+        }
+        output = format === 'jpeg' ? embedInJpeg(bytes, xmp) : embedInWebp(bytes, xmp, canvas.width, canvas.height);
+    }
+    return new Blob([output], { type: mimeType });
+};
+
+/** Reads metadata written by `exportImage`. Returns null for images without it. */
+export const readGenerationMetadata = async (file: Blob): Promise<GenerationMetadata | null> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let json: string | null = null;
+    if (readAscii(bytes, 1, 3) === 'PNG') {
+        json = readFromPng(bytes);
+    } else if (bytes[0] === 0xFF && bytes[1] === 0xD8) {
+        json = readFromJpeg(bytes);
+    } else if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+        json = readFromWebp(bytes);
+    }
+    if (!json) return null;
+
+    let metadata: any;
+    try {
+        metadata = JSON.parse(json);
+    } catch {
+        throw new Error('The image has damaged generation metadata.');
+    }
+    if (metadata?.format !== METADATA_FORMAT) return null;
+    if (typeof metadata.version !== 'number' || metadata.version > METADATA_VERSION) {
+        throw new Error('This image was exported by a newer version of the app. Please update to import it.');
+    }
+    return metadata as GenerationMetadata;
+};
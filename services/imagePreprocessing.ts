@@ -0,0 +1,140 @@
+/**
+ * Uploaded images are normalized before they are stored or sent: EXIF
+ * orientation is baked into the pixels, the user's crop / rotate / flip is
+ * applied, the size is capped and the result is re-encoded. Models generally
+ * ignore EXIF, so an unbaked phone photo would otherwise arrive sideways.
+ */
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** A crop in 0..1 fractions of the rotated and flipped image. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImageEdit {
+    rotation: Rotation;
+    flipX: boolean;
+    flipY: boolean;
+    crop: CropRect | null;
+}
+
+export const DEFAULT_IMAGE_EDIT: ImageEdit = { rotation: 0, flipX: false, flipY: false, crop: null };
+
+/** Longest side of a normalized image, in pixels. */
+export const MAX_IMAGE_DIMENSION = 1536;
+
+const JPEG_QUALITY = 0.9;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// The untouched upload behind each normalized file, so edits always start from
+// full quality instead of compounding re-encodes.
+const sources = new WeakMap<File, { source: File; edit: ImageEdit }>();
+
+export const getImageSource = (file: File): { source: File; edit: ImageEdit } => (
+    sources.get(file) ?? { source: file, edit: DEFAULT_IMAGE_EDIT }
+);
+
+/** Decodes a file with its EXIF orientation applied. */
+export const decodeImage = async (file: File): Promise<ImageBitmap> => {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        throw new Error(`Could not read the image "${file.name}".`);
+    }
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    return { canvas, ctx };
+};
+
+/** Draws the image rotated and flipped, without cropping or scaling. */
+export const renderTransformed = (image: ImageBitmap, { rotation, flipX, flipY }: Pick<ImageEdit, 'rotation' | 'flipX' | 'flipY'>): HTMLCanvasElement => {
+    const sideways = rotation === 90 || rotation === 270;
+    const { canvas, ctx } = createCanvas(sideways ? image.height : image.width, sideways ? image.width : image.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+    ctx.rotate(rotation * Math.PI / 180);
+    ctx.drawImage(image, -image.width / 2, -image.height / 2);
+    return canvas;
+};
+
+/** Pixel size of the edited image before the dimension cap is applied. */
+export const getEditedSize = (image: ImageBitmap, { rotation, crop }: ImageEdit) => {
+    const sideways = rotation === 90 || rotation === 270;
+    const width = sideways ? image.height : image.width;
+    const height = sideways ? image.width : image.height;
+    return crop
+        ? { width: Math.round(width * crop.width), height: Math.round(height * crop.height) }
+        : { width, height };
+};
+
+export const renderEditedImage = (image: ImageBitmap, edit: ImageEdit, maxDimension = MAX_IMAGE_DIMENSION): HTMLCanvasElement => {
+    const transformed = renderTransformed(image, edit);
+    const crop = edit.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const sx = crop.x * transformed.width;
+    const sy = crop.y * transformed.height;
+    const sw = Math.max(1, crop.width * transformed.width);
+    const sh = Math.max(1, crop.height * transformed.height);
+    const scale = Math.min(1, maxDimension / Math.max(sw, sh));
+
+    const { canvas, ctx } = createCanvas(sw * scale, sh * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(transformed, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+const hasTransparency = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return false;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) return true;
+    }
+    return false;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the image.')), type, quality);
+});
+
+/**
+ * Returns the upload as it will be sent: oriented, edited, at most
+ * `MAX_IMAGE_DIMENSION` on its longest side and re-encoded as JPEG, or as PNG
+ * when the source has transparency worth keeping.
+ */
+export const normalizeImage = async (file: File, edit: ImageEdit = DEFAULT_IMAGE_EDIT): Promise<File> => {
+    const image = await decodeImage(file);
+    let canvas: HTMLCanvasElement;
+    try {
+        canvas = renderEditedImage(image, edit);
+    } finally {
+        image.close();
+    }
+
+    const keepAlpha = file.type !== 'image/jpeg' && hasTransparency(canvas);
+    const type = keepAlpha ? 'image/png' : 'image/jpeg';
+    const blob = await canvasToBlob(canvas, type, keepAlpha ? undefined : JPEG_QUALITY);
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${keepAlpha ? 'png' : 'jpg'}`;
+
+    const normalized = new File([blob], name, { type });
+    sources.set(normalized, { source: file, edit });
+    return normalized;
+};
+
+/** Bytes an image takes once base64-encoded into a request. */
+export const getEncodedSize = (files: Blob[]) => files.reduce((total, file) => total + Math.ceil(file.size / 3) * 4, 0);
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,160 @@
+import type { AspectRatio, Character } from "../App";
+
+export type CharacterInput = Omit<Character, 'id'> & {
+    /** Where the character's placement boxes put it, in words (see describePlacement). */
+    placement?: string | null;
+};
+
+/** One character's marks on their own, sent next to the combined sketch. */
+export interface CharacterSketch {
+    /** Index into `characters`. */
+    characterIndex: number;
+    image: string; // base64 data URL
+    /** Where the character's marks are in the frame, in words (see describeBounds). */
+    area: string;
+}
+
+export interface GenerateImageParams {
+    characters: CharacterInput[];
+    bgImage: File | null;
+    promptOverall: string;
+    /** The full instruction text, rendered from the selected prompt template. */
+    prompt: string;
+    sketchImage: string; // base64 data URL
+    /** Width:height the result must have, matching the sketch. */
+    aspectRatio: AspectRatio;
+    characterSketches?: CharacterSketch[];
+}
+
+export interface RefinementTurn {
+    instruction: string;
+    image: string; // base64 data URL
+}
+
+export interface RefineImageParams {
+    rootPrompt: string;
+    rootImage: string; // base64 data URL
+    turns: RefinementTurn[];
+    instruction: string;
+}
+
+export interface InpaintImageParams {
+    image: string; // base64 data URL
+    mask: string; // base64 data URL, white = region to edit
+    instruction: string;
+}
+
+export interface ProviderCapabilities {
+    refine: boolean;
+    inpaint: boolean;
+}
+
+export interface GenerationResult {
+    /** Raw base64 PNG data, in the order the model returned them. Never empty. */
+    images: string[];
+    /** What the model wrote alongside the images, if anything. */
+    text: string;
+}
+
+/** Everything received so far while a response streams in. */
+export type GenerationProgress = GenerationResult;
+
+export type ProgressListener = (progress: GenerationProgress) => void;
+
+/**
+ * A backend that turns the app's inputs into images. Every method resolves to
+ * all images of the response and rejects with a ProviderError, including when
+ * the backend answered without an image. Aborting `signal` cancels the
+ * request; `onProgress` is called as parts of the response arrive.
+ */
+export interface ImageProvider {
+    id: string;
+    name: string;
+    model: string;
+    capabilities: ProviderCapabilities;
+    generate: (params: GenerateImageParams, signal?: AbortSignal, onProgress?: ProgressListener) => Promise<GenerationResult>;
+    refine: (params: RefineImageParams, signal?: AbortSignal, onProgress?: ProgressListener) => Promise<GenerationResult>;
+    inpaint: (params: InpaintImageParams, signal?: AbortSignal, onProgress?: ProgressListener) => Promise<GenerationResult>;
+}
+
+export type ProviderAction = 'generate' | 'refine' | 'inpaint';
+
+/** What one request to a backend used. Reported for every request that was sent, whether or not it produced an image. */
+export interface UsageReport {
+    providerId: string;
+    model: string;
+    action: ProviderAction;
+    startedAt: number;
+    latencyMs: number;
+    /** Null when the backend did not say, e.g. because the request failed before it answered. */
+    inputTokens: number | null;
+    outputTokens: number | null;
+    inputImages: number;
+    outputImages: number;
+    requestBytes: number;
+    responseBytes: number;
+    /** Set for requests that failed. */
+    error: ProviderErrorCode | null;
+}
+
+export type UsageListener = (report: UsageReport) => void;
+
+export type ProviderErrorCode =
+    | 'auth' // missing or rejected credentials
+    | 'quota' // rate limit or quota exceeded
+    | 'safety' // blocked by a safety filter
+    | 'network' // the service could not be reached
+    | 'unavailable' // the service is overloaded or down
+    | 'invalid-input' // the request was rejected as malformed
+    | 'no-image' // the model answered, but without an image
+    | 'timeout' // no answer within the configured time
+    | 'cancelled' // stopped by the user or superseded by a newer request
+    | 'budget' // the request would exceed the usage budget
+    | 'failed';
+
+const TRANSIENT_CODES: ProviderErrorCode[] = ['quota', 'network', 'unavailable'];
+
+export interface ProviderErrorDetails {
+    /** For safety blocks, the category that triggered it, e.g. "harassment". */
+    category?: string;
+    /** Any text the model returned alongside (or instead of) an image. It often explains a refusal. */
+    modelText?: string;
+    /** How long the service asked us to wait before retrying. */
+    retryAfterMs?: number;
+}
+
+export class ProviderError extends Error {
+    code: ProviderErrorCode;
+    category?: string;
+    modelText?: string;
+    retryAfterMs?: number;
+
+    constructor(code: ProviderErrorCode, message: string, details: ProviderErrorDetails = {}) {
+        super(message);
+        this.name = 'ProviderError';
+        this.code = code;
+        this.category = details.category;
+        this.modelText = details.modelText;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+
+    /** Whether the same request may succeed if retried later. */
+    get isTransient(): boolean {
+        return TRANSIENT_CODES.includes(this.code);
+    }
+}
+
+/** What the user can do about each kind of error. */
+export const ERROR_HINTS: { [code in ProviderErrorCode]: string } = {
+    auth: 'Enter a valid key under API key settings, or switch to the Offline Mock provider.',
+    quota: 'Wait a minute before trying again, or lower the number of parallel requests.',
+    safety: 'Rephrase the prompt or replace the reference images that may have triggered the filter.',
+    network: 'Check your internet connection and try again.',
+    unavailable: 'The service is busy or down. Try again in a few minutes.',
+    'invalid-input': 'Check the prompt and images (supported formats, reasonable sizes) and try again.',
+    'no-image': "Read the model's reply below, adjust the prompt and try again.",
+    timeout: 'Try again, or raise the timeout in the provider settings.',
+    budget: 'Raise the budget or switch it to warn only in the usage settings, or wait for the next period.',
+    cancelled: 'Generate again whenever you are ready.',
+    failed: 'Try again. If it keeps failing, try a different prompt or provider.',
+};
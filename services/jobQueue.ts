@@ -0,0 +1,36 @@
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface JobUpdate<T> {
+    status: JobStatus;
+    result?: T;
+    error?: unknown;
+}
+
+/**
+ * Runs tasks with at most `concurrency` in flight, reporting every status
+ * change through `onUpdate`. A failing task does not stop the others; the
+ * returned promise resolves once every task has settled.
+ */
+export const runWithConcurrency = async <T>(
+    tasks: (() => Promise<T>)[],
+    concurrency: number,
+    onUpdate: (index: number, update: JobUpdate<T>) => void,
+): Promise<void> => {
+    let next = 0;
+
+    const worker = async () => {
+        while (next < tasks.length) {
+            const index = next++;
+            onUpdate(index, { status: 'running' });
+            try {
+                const result = await tasks[index]();
+                onUpdate(index, { status: 'done', result });
+            } catch (error) {
+                onUpdate(index, { status: 'failed', error });
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+};
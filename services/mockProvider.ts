@@ -0,0 +1,256 @@
+import { ProviderError } from "./imageProvider";
+import { sleep, throwIfAborted } from "./cancellation";
+import type {
+    GenerateImageParams,
+    GenerationResult,
+    ImageProvider,
+    InpaintImageParams,
+    ProgressListener,
+    ProviderAction,
+    ProviderErrorCode,
+    RefineImageParams,
+    UsageListener,
+} from "./imageProvider";
+
+export type MockOutcome = 'success' | 'two-images' | 'safety' | 'failure' | 'no-image' | 'rate-limit' | 'flaky';
+
+export interface MockProviderSettings {
+    latencyMs: number;
+    outcome: MockOutcome;
+}
+
+export const DEFAULT_MOCK_SETTINGS: MockProviderSettings = {
+    latencyMs: 800,
+    outcome: 'success',
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ProviderError('failed', 'Mock provider could not decode an input image.'));
+    image.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new ProviderError('failed', 'Canvas 2D context is not available.');
+    return { canvas, ctx };
+};
+
+const toBase64 = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1];
+
+// Small string hash so the same inputs always produce the same colors.
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const hueFor = (value: string) => hashString(value) % 360;
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color = '#FFFFFF') => {
+    ctx.font = 'bold 20px sans-serif';
+    const width = ctx.measureText(text).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+    ctx.fillRect(x - 6, y - 20, width + 12, 28);
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y);
+};
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    ctx.font = 'bold 16px monospace';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.textAlign = 'right';
+    ctx.fillText('MOCK PROVIDER', width - 12, height - 12);
+    ctx.textAlign = 'left';
+};
+
+// Streamed over the simulated latency, so progress can be tried offline.
+const COMMENTARY = ['Reading the sketch. ', 'Placing the characters. ', 'Rendering the scene. (simulated)'];
+
+const simulate = async ({ latencyMs, outcome }: MockProviderSettings, signal?: AbortSignal, onProgress?: ProgressListener): Promise<void> => {
+    let text = '';
+    for (const fragment of COMMENTARY) {
+        if (latencyMs > 0) await sleep(latencyMs / COMMENTARY.length, signal);
+        text += fragment;
+        onProgress?.({ images: [], text });
+    }
+    throwIfAborted(signal);
+    if (outcome === 'safety') {
+        throw new ProviderError('safety', 'The request was blocked by the safety filter (simulated: harassment).', {
+            category: 'harassment',
+            modelText: 'I can\'t create that image because it may depict harassment. (simulated reply)',
+        });
+    }
+    if (outcome === 'failure') {
+        throw new ProviderError('failed', 'The mock provider simulated a failure.');
+    }
+    // Transient errors exercise the retry logic; "flaky" fails about half the time.
+    if (outcome === 'rate-limit' || (outcome === 'flaky' && Math.random() < 0.5)) {
+        throw new ProviderError('quota', 'The mock provider simulated a rate limit.', { retryAfterMs: 1000 });
+    }
+    if (outcome === 'no-image') {
+        throw new ProviderError('no-image', 'The model replied with text instead of an image.', {
+            modelText: 'Here is a description of the scene instead of an image. (simulated reply)',
+        });
+    }
+};
+
+const generate = async ({ characters, bgImage, promptOverall, sketchImage }: GenerateImageParams): Promise<string> => {
+    const sketch = await loadImage(sketchImage);
+    const { canvas, ctx } = createCanvas(sketch.naturalWidth, sketch.naturalHeight);
+    const { width, height } = canvas;
+
+    if (bgImage) {
+        const url = URL.createObjectURL(bgImage);
+        try {
+            const background = await loadImage(url);
+            const scale = Math.max(width / background.naturalWidth, height / background.naturalHeight);
+            const drawWidth = background.naturalWidth * scale;
+            const drawHeight = background.naturalHeight * scale;
+            ctx.drawImage(background, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    } else {
+        const hue = hueFor(promptOverall);
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, `hsl(${hue}, 45%, 25%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 12%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    // The sketch has a dark background; "screen" lets only the lines show through.
+    ctx.globalCompositeOperation = 'screen';
+    ctx.drawImage(sketch, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    characters.forEach((character, index) => {
+        const label = `${character.name || `Character ${index + 1}`} (${character.refImages.length} ref)`;
+        drawLabel(ctx, truncate(label, 40), 16, 36 + index * 34, character.color.value);
+    });
+    if (promptOverall) {
+        drawLabel(ctx, truncate(promptOverall, 70), 16, height - 44);
+    }
+    drawWatermark(ctx, width, height);
+
+    return toBase64(canvas);
+};
+
+const refine = async ({ rootImage, turns, instruction }: RefineImageParams): Promise<string> => {
+    const previous = await loadImage(turns.length > 0 ? turns[turns.length - 1].image : rootImage);
+    const { canvas, ctx } = createCanvas(previous.naturalWidth, previous.naturalHeight);
+    ctx.drawImage(previous, 0, 0);
+
+    const hue = hueFor(instruction);
+    ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.15)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawLabel(ctx, truncate(`Step ${turns.length + 1}: ${instruction}`, 70), 16, canvas.height - 80, `hsl(${hue}, 80%, 75%)`);
+    drawWatermark(ctx, canvas.width, canvas.height);
+
+    return toBase64(canvas);
+};
+
+const inpaint = async ({ image, mask, instruction }: InpaintImageParams): Promise<string> => {
+    const [source, maskImage] = await Promise.all([loadImage(image), loadImage(mask)]);
+    const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+    ctx.drawImage(source, 0, 0);
+
+    // Turn the black/white mask into a tinted overlay that only covers the white area.
+    const overlay = createCanvas(canvas.width, canvas.height);
+    overlay.ctx.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+    const data = overlay.ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < data.data.length; i += 4) {
+        data.data[i + 3] = data.data[i];
+    }
+    overlay.ctx.putImageData(data, 0, 0);
+    overlay.ctx.globalCompositeOperation = 'source-in';
+    overlay.ctx.fillStyle = `hsla(${hueFor(instruction)}, 80%, 55%, 0.6)`;
+    overlay.ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.drawImage(overlay.canvas, 0, 0);
+    drawLabel(ctx, truncate(`Region: ${instruction}`, 70), 16, 36);
+
+    return toBase64(canvas);
+};
+
+const MOCK_MODEL = 'mock-image-v1';
+
+const mirror = async (base64: string): Promise<string> => {
+    const image = await loadImage(`data:image/png;base64,${base64}`);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.scale(-1, 1);
+    ctx.drawImage(image, -canvas.width, 0);
+    return toBase64(canvas);
+};
+
+/**
+ * Runs one simulated request: streams the commentary, then returns the image
+ * (and its mirror image for the "two images" outcome). Reports usage like a
+ * real request, without tokens, so usage tracking and budgets can be tried offline.
+ */
+const runMock = async (
+    action: ProviderAction,
+    inputImages: number,
+    settings: MockProviderSettings,
+    render: () => Promise<string>,
+    signal?: AbortSignal,
+    onProgress?: ProgressListener,
+    onUsage?: UsageListener,
+): Promise<GenerationResult> => {
+    const startedAt = Date.now();
+    let error: ProviderErrorCode | null = null;
+    let images: string[] = [];
+    try {
+        await simulate(settings, signal, onProgress);
+        const image = await render();
+        images = settings.outcome === 'two-images' ? [image, await mirror(image)] : [image];
+        return { images, text: COMMENTARY.join('').trim() };
+    } catch (e) {
+        error = e instanceof ProviderError ? e.code : 'failed';
+        throw e;
+    } finally {
+        onUsage?.({
+            providerId: 'mock',
+            model: MOCK_MODEL,
+            action,
+            startedAt,
+            latencyMs: Date.now() - startedAt,
+            inputTokens: null,
+            outputTokens: null,
+            inputImages,
+            outputImages: images.length,
+            requestBytes: 0,
+            responseBytes: images.reduce((total, image) => total + image.length, 0),
+            error,
+        });
+    }
+};
+
+/**
+ * An offline provider that synthesizes images locally from the inputs, e.g.
+ * the sketch composited over the background with character labels. Output is
+ * deterministic, and latency, safety blocks, rate limits and failures can be simulated.
+ */
+export const createMockProvider = (settings: MockProviderSettings, onUsage?: UsageListener): ImageProvider => ({
+    id: 'mock',
+    name: 'Offline Mock',
+    model: MOCK_MODEL,
+    capabilities: { refine: true, inpaint: true },
+    generate: (params, signal, onProgress) => {
+        const inputImages = params.characters.reduce((count, character) => count + character.refImages.length, 0)
+            + (params.bgImage ? 1 : 0) + 1 + (params.characterSketches?.length ?? 0);
+        return runMock('generate', inputImages, settings, () => generate(params), signal, onProgress, onUsage);
+    },
+    refine: (params, signal, onProgress) => runMock('refine', params.turns.length + 1, settings, () => refine(params), signal, onProgress, onUsage),
+    inpaint: (params, signal, onProgress) => runMock('inpaint', 2, settings, () => inpaint(params), signal, onProgress, onUsage),
+});
@@ -0,0 +1,75 @@
+import type { Point } from "../components/SketchPad";
+import type { CanvasSize, LayerGeometry, SketchLayer } from "./sketchLayers";
+import { createLayer, renderSketchImage } from "./sketchLayers";
+import { IDENTITY_TRANSFORM, getBoundsCenter, getGeometryBounds, recolorGeometry, transformGeometry } from "./sketchSelection";
+
+/**
+ * Reusable poses: selected strokes, shapes and figures saved under a name and
+ * stamped into any sketch at any position and size. Stamps are stored in this
+ * browser's localStorage.
+ */
+export interface PoseStamp {
+    id: string;
+    name: string;
+    createdAt: number;
+    /** Centered on 0,0 and scaled so the larger side of its bounds is 1. */
+    geometry: LayerGeometry;
+    /** The larger side as a fraction of the canvas height when it was saved; stamps are placed at this size. */
+    size: number;
+}
+
+const STORAGE_KEY = 'pose-painter:pose-stamps';
+const PREVIEW_SIZE = 96;
+
+// Entries that would break the previews or placement are dropped on load.
+const isPoseStamp = (value: unknown): value is PoseStamp => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { id, name, size, geometry } = value as { [key: string]: unknown };
+    if (typeof id !== 'string' || typeof name !== 'string' || typeof size !== 'number' || !Number.isFinite(size)) return false;
+    if (typeof geometry !== 'object' || geometry === null) return false;
+    const { strokes, shapes, skeletons } = geometry as { [key: string]: unknown };
+    return Array.isArray(strokes) && Array.isArray(shapes) && Array.isArray(skeletons);
+};
+
+export const loadPoseStamps = (): PoseStamp[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(saved) ? saved.filter(isPoseStamp) : [];
+    } catch {
+        // Ignore a corrupt library rather than failing to start.
+        return [];
+    }
+};
+
+/** Throws when the browser's storage is full. */
+export const savePoseStamps = (stamps: PoseStamp[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stamps));
+};
+
+/** Makes a stamp from canvas-pixel geometry, or returns null if there is nothing to save. */
+export const createPoseStamp = (name: string, geometry: LayerGeometry, canvas: CanvasSize): PoseStamp | null => {
+    const bounds = getGeometryBounds(geometry);
+    if (!bounds) return null;
+    const extent = Math.max(bounds.right - bounds.left, bounds.bottom - bounds.top, 1);
+    const center = getBoundsCenter(bounds);
+    return {
+        id: crypto.randomUUID(),
+        name,
+        createdAt: Date.now(),
+        geometry: transformGeometry(geometry, center, { ...IDENTITY_TRANSFORM, dx: -center.x, dy: -center.y, scale: 1 / extent }),
+        size: extent / canvas.height,
+    };
+};
+
+/** The stamp's geometry in canvas pixels, centered on `center` with its larger side `extent` long, optionally in one color. */
+export const placePoseStamp = (stamp: PoseStamp, center: Point, extent: number, color: string | null): LayerGeometry => {
+    const placed = transformGeometry(stamp.geometry, { x: 0, y: 0 }, { ...IDENTITY_TRANSFORM, dx: center.x, dy: center.y, scale: extent });
+    return color ? recolorGeometry(placed, color) : placed;
+};
+
+/** A small PNG data URL of the stamp for the library list. */
+export const renderPoseStampPreview = (stamp: PoseStamp): string => {
+    // Rendered as a relative layer, with a margin so wide strokes are not cut off.
+    const layer: SketchLayer = { ...createLayer('Preview'), ...placePoseStamp(stamp, { x: 0.5, y: 0.5 }, 0.8, null) };
+    return renderSketchImage([layer], { width: PREVIEW_SIZE, height: PREVIEW_SIZE });
+};
@@ -0,0 +1,195 @@
+import type { AspectRatio } from "../App";
+import type { Stroke } from "../components/SketchPad";
+import type { SketchColor } from "./sketchColors";
+import type { Skeleton } from "./skeleton";
+import { createLegacyLayer, normalizeLayer, toRelativeLayer } from "./sketchLayers";
+import { getCanvasSize, isAspectRatio } from "./aspectRatio";
+import type { SketchLayer } from "./sketchLayers";
+
+/**
+ * Portable project files are plain JSON with every image embedded as base64,
+ * so they can be shared and kept in version control. The layout is versioned:
+ * bump PROJECT_VERSION whenever the shape changes and register a migration
+ * from the previous version in MIGRATIONS.
+ */
+export const PROJECT_FORMAT = 'pose-painter-project';
+export const PROJECT_VERSION = 5;
+export const PROJECT_FILE_EXTENSION = '.posepainter.json';
+
+interface EmbeddedImage {
+    name: string;
+    mimeType: string;
+    data: string; // base64, without the data URL prefix
+}
+
+interface ProjectFileV1 {
+    format: typeof PROJECT_FORMAT;
+    version: 1;
+    savedAt: string;
+    aspectRatio: AspectRatio;
+    promptOverall: string;
+    background: EmbeddedImage | null;
+    characters: {
+        name: string;
+        prompt: string;
+        color: SketchColor;
+        refImages: EmbeddedImage[];
+    }[];
+    strokes: Stroke[];
+}
+
+interface ProjectFileV2 extends Omit<ProjectFileV1, 'version'> {
+    version: 2;
+    skeletons: Skeleton[];
+}
+
+interface ProjectFileV3 extends Omit<ProjectFileV2, 'version' | 'characters' | 'strokes' | 'skeletons'> {
+    version: 3;
+    characters: (ProjectFileV2['characters'][number] & { id: string })[];
+    layers: Omit<SketchLayer, 'shapes'>[];
+}
+
+interface ProjectFileV4 extends Omit<ProjectFileV3, 'version' | 'layers'> {
+    version: 4;
+    layers: SketchLayer[];
+}
+
+/** Same shape as v4, but layer coordinates are relative to the canvas size. */
+interface ProjectFileV5 extends Omit<ProjectFileV4, 'version'> {
+    version: 5;
+}
+
+type ProjectFile = ProjectFileV5;
+
+export interface ProjectState {
+    aspectRatio: AspectRatio;
+    promptOverall: string;
+    bgImage: File | null;
+    characters: {
+        id?: string;
+        name: string;
+        prompt: string;
+        color: SketchColor;
+        refImages: File[];
+    }[];
+    layers: SketchLayer[];
+}
+
+/** Upgrades a project of version N to version N + 1, keyed by N. */
+const MIGRATIONS: { [fromVersion: number]: (project: any) => any } = {
+    // v2 added articulated pose figures.
+    1: (project: ProjectFileV1): ProjectFileV2 => ({ ...project, version: 2, skeletons: [] }),
+    // v3 moved the flat sketch into layers and gave characters stable ids for layer links.
+    2: ({ strokes, skeletons, ...project }: ProjectFileV2): ProjectFileV3 => ({
+        ...project,
+        version: 3,
+        characters: project.characters.map(character => ({ ...character, id: crypto.randomUUID() })),
+        layers: [createLegacyLayer(strokes, skeletons)],
+    }),
+    // v4 added editable shapes and placement boxes to layers.
+    3: (project: ProjectFileV3): ProjectFileV4 => ({ ...project, version: 4, layers: project.layers.map(normalizeLayer) }),
+    // v5 stores layers relative to the canvas size instead of in canvas pixels.
+    4: (project: ProjectFileV4): ProjectFileV5 => ({
+        ...project,
+        version: 5,
+        layers: project.layers.map(layer => toRelativeLayer(layer, getCanvasSize(project.aspectRatio))),
+    }),
+};
+
+const fileToEmbeddedImage = (file: File): Promise<EmbeddedImage> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+        const result = reader.result as string;
+        resolve({ name: file.name, mimeType: file.type, data: result.split(',')[1] });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const embeddedImageToFile = ({ name, mimeType, data }: EmbeddedImage): File => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new File([bytes], name, { type: mimeType });
+};
+
+// Round coordinates so saved files stay small and diff cleanly. Five decimals
+// of a relative coordinate are finer than a canvas pixel.
+const round = (value: number) => Math.round(value * 100000) / 100000;
+
+const roundStroke = (stroke: Stroke): Stroke => ({
+    ...stroke,
+    points: stroke.points.map(point => ({ ...point, x: round(point.x), y: round(point.y) })),
+});
+
+export const serializeProject = async (state: ProjectState): Promise<string> => {
+    const project: ProjectFile = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        aspectRatio: state.aspectRatio,
+        promptOverall: state.promptOverall,
+        background: state.bgImage ? await fileToEmbeddedImage(state.bgImage) : null,
+        characters: await Promise.all(state.characters.map(async character => ({
+            id: character.id ?? crypto.randomUUID(),
+            name: character.name,
+            prompt: character.prompt,
+            color: character.color,
+            refImages: await Promise.all(character.refImages.map(fileToEmbeddedImage)),
+        }))),
+        layers: state.layers.map(layer => ({ ...layer, strokes: layer.strokes.map(roundStroke) })),
+    };
+    return JSON.stringify(project, null, 2);
+};
+
+const migrateProject = (project: any): ProjectFile => {
+    if (!project || typeof project !== 'object' || project.format !== PROJECT_FORMAT) {
+        throw new Error('This file is not a Pose Painter project.');
+    }
+    if (typeof project.version !== 'number' || project.version < 1) {
+        throw new Error('The project file has an invalid version.');
+    }
+    if (project.version > PROJECT_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (format v${project.version}). Please update to open it.`);
+    }
+
+    if (!isAspectRatio(project.aspectRatio)) {
+        throw new Error('The project file has an invalid aspect ratio.');
+    }
+
+    let migrated = project;
+    while (migrated.version < PROJECT_VERSION) {
+        const migrate = MIGRATIONS[migrated.version];
+        if (!migrate) {
+            throw new Error(`No migration available from project format v${migrated.version}.`);
+        }
+        migrated = migrate(migrated);
+    }
+    return migrated as ProjectFile;
+};
+
+export const parseProject = (text: string): ProjectState => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('The project file is not valid JSON.');
+    }
+
+    const project = migrateProject(raw);
+    return {
+        aspectRatio: project.aspectRatio,
+        promptOverall: project.promptOverall ?? '',
+        bgImage: project.background ? embeddedImageToFile(project.background) : null,
+        characters: (project.characters ?? []).map(character => ({
+            id: character.id,
+            name: character.name ?? '',
+            prompt: character.prompt ?? '',
+            color: character.color,
+            refImages: (character.refImages ?? []).map(embeddedImageToFile),
+        })),
+        layers: project.layers ?? [],
+    };
+};
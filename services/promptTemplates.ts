@@ -0,0 +1,204 @@
+import type { AspectRatio } from "../App";
+import type { CharacterInput } from "./imageProvider";
+
+/**
+ * The instruction text sent with every generation is rendered from a
+ * template. `{{name}}` inserts a variable, `{{#name}}...{{/name}}` keeps a
+ * section only when the variable is non-empty and `{{^name}}...{{/name}}`
+ * only when it is empty.
+ */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    body: string;
+    /** Fills `{{style}}`. */
+    style: string;
+    /** Fills `{{negative}}`. */
+    negative: string;
+    builtIn?: boolean;
+}
+
+export interface PromptContext {
+    characters: CharacterInput[];
+    promptOverall: string;
+    hasBackground: boolean;
+    aspectRatio: AspectRatio;
+}
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+    { name: 'scene', description: 'The overall composition prompt' },
+    { name: 'characters', description: 'One description block per character' },
+    { name: 'characterCount', description: 'e.g. "2 characters"' },
+    { name: 'colorMapping', description: 'Which sketch color belongs to which character' },
+    { name: 'sketchGuide', description: 'How to read stick figures and placement boxes' },
+    { name: 'background', description: 'Whether a background image is provided' },
+    { name: 'aspectRatio', description: 'e.g. "2:3"' },
+    { name: 'style', description: "The template's style text" },
+    { name: 'negative', description: "The template's negative instructions" },
+];
+
+const STANDARD_BODY = `You are an expert AI image generator. Your task is to create a single, cohesive image based on the provided elements. Follow these instructions carefully:
+
+**Overall Composition Prompt:**
+{{#scene}}{{scene}}{{/scene}}{{^scene}}No composition prompt was given; choose a fitting scene for the characters.{{/scene}}
+
+---
+
+{{characters}}
+
+---
+
+**Instructions:**
+1.  Use the provided reference images to understand the appearance of the characters. Each set of reference images is introduced by a heading naming the character it belongs to; all images in a set show the same character (e.g. front, side and outfit views).
+2.  Use the sketch image to determine the exact pose and placement of each character. {{#colorMapping}}In the sketch, {{colorMapping}}. {{/colorMapping}}{{sketchGuide}}
+3.  {{background}}
+4.  Synthesize all these elements into a single, high-quality {{aspectRatio}} image containing exactly {{characterCount}}.
+{{#style}}5.  **Style:** {{style}}
+{{/style}}{{#negative}}6.  **Avoid:** {{negative}}
+{{/negative}}`;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    { id: 'builtin:standard', name: 'Standard', body: STANDARD_BODY, style: '', negative: '', builtIn: true },
+    {
+        id: 'builtin:anime',
+        name: 'Anime',
+        body: STANDARD_BODY,
+        style: 'Anime key visual: clean line art, cel shading, vibrant colors and expressive faces.',
+        negative: 'photorealism, 3D render look, muddy colors, extra limbs, text or watermarks.',
+        builtIn: true,
+    },
+    {
+        id: 'builtin:photoreal',
+        name: 'Photoreal',
+        body: STANDARD_BODY,
+        style: 'Photorealistic photograph: natural lighting, realistic skin and fabric texture, 35mm lens, shallow depth of field.',
+        negative: 'illustrated or cartoon look, plastic skin, distorted hands, extra limbs, text or watermarks.',
+        builtIn: true,
+    },
+    {
+        id: 'builtin:comic',
+        name: 'Comic panel',
+        body: STANDARD_BODY,
+        style: 'A single comic book panel: bold inks, flat colors with halftone shading and a dynamic camera angle.',
+        negative: 'speech bubbles, captions, panel grids, photorealism, text or watermarks.',
+        builtIn: true,
+    },
+    {
+        id: 'builtin:product',
+        name: 'Product shot',
+        body: STANDARD_BODY,
+        style: 'Studio product photography: seamless backdrop, softbox lighting, crisp focus and accurate materials.',
+        negative: 'cluttered background, harsh shadows, motion blur, distorted proportions, text or watermarks.',
+        builtIn: true,
+    },
+];
+
+export const DEFAULT_TEMPLATE_ID = BUILT_IN_TEMPLATES[0].id;
+
+const SKETCH_GUIDE = "The sketch may also contain OpenPose-style stick figures with multi-colored limbs; the color of a figure's joint dots tells you which character it belongs to, and its limbs give the exact body pose (the figure's right side is on the left of the image when it faces the viewer). Dashed boxes mark where a character should appear and how large, and a box's color tells you which character it is; an arrow from a box's center shows the direction the character faces or moves. Boxes and arrows are layout guides only and must not appear in the final image.";
+
+const describeCharacter = (character: CharacterInput, index: number): string => {
+    const number = index + 1;
+    const color = character.color.name.toUpperCase();
+    const imageCount = character.refImages.length;
+    const references = imageCount === 0
+        ? 'No reference images were provided; rely on the description.'
+        : `${imageCount} reference image${imageCount === 1 ? '' : 's'}, provided below under the heading "Character ${number} references".`;
+
+    return `**Character ${number}: ${character.name || `Character ${number}`} (Associated with the ${color} sketch):**
+- **Description:** ${character.prompt || `The character shown in the character ${number} reference images.`}
+- **Reference Images:** ${references}
+- **Pose:** The pose for this character is indicated by the **${color}** lines in the sketch image.${character.placement ? `
+- **Placement:** Character ${number} ${character.placement}.` : ''}`;
+};
+
+export const getPromptVariables = (template: PromptTemplate, { characters, promptOverall, hasBackground, aspectRatio }: PromptContext): { [name: string]: string } => ({
+    scene: promptOverall.trim(),
+    characters: characters.map(describeCharacter).join('\n\n'),
+    characterCount: `${characters.length} character${characters.length === 1 ? '' : 's'}`,
+    colorMapping: characters
+        .map((character, index) => `the ${character.color.name.toUpperCase()} sketch is for Character ${index + 1}`)
+        .join(', '),
+    sketchGuide: SKETCH_GUIDE,
+    background: hasBackground
+        ? 'Use the provided background image as the setting.'
+        : 'No background image is provided; create a background that fits the "Overall Composition Prompt".',
+    aspectRatio,
+    style: template.style.trim(),
+    negative: template.negative.trim(),
+});
+
+/** Fills in a template body. Unknown variables are left in place so they show up in the preview. */
+export const renderTemplate = (body: string, variables: { [name: string]: string }): string => (
+    body
+        .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, mode: string, name: string, section: string) => {
+            const isSet = !!variables[name];
+            return (mode === '#') === isSet ? section : '';
+        })
+        .replace(/\{\{(\w+)\}\}/g, (match, name: string) => name in variables ? variables[name] : match)
+);
+
+export const buildPrompt = (template: PromptTemplate, context: PromptContext): string => (
+    renderTemplate(template.body, getPromptVariables(template, context))
+);
+
+export const getTemplate = (templates: PromptTemplate[], id: string): PromptTemplate => (
+    templates.find(template => template.id === id) ?? BUILT_IN_TEMPLATES[0]
+);
+
+export interface PromptTemplateSettings {
+    selectedId: string;
+    custom: PromptTemplate[];
+}
+
+const STORAGE_KEY = 'pose-painter:prompt-templates';
+
+export const loadPromptTemplateSettings = (): PromptTemplateSettings => {
+    let saved: Partial<PromptTemplateSettings> = {};
+    try {
+        saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+        // Ignore corrupt settings and fall back to defaults.
+    }
+    return {
+        selectedId: typeof saved.selectedId === 'string' ? saved.selectedId : DEFAULT_TEMPLATE_ID,
+        custom: Array.isArray(saved.custom) ? saved.custom : [],
+    };
+};
+
+export const savePromptTemplateSettings = (settings: PromptTemplateSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const TEMPLATE_FILE_FORMAT = 'pose-painter-prompt-templates';
+
+export const exportTemplates = (templates: PromptTemplate[]): string => JSON.stringify({
+    format: TEMPLATE_FILE_FORMAT,
+    version: 1,
+    templates: templates.map(({ name, body, style, negative }) => ({ name, body, style, negative })),
+}, null, 2);
+
+/** Reads templates exported by `exportTemplates`. Imported templates get new ids. */
+export const importTemplates = (text: string): PromptTemplate[] => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The template file is not valid JSON.');
+    }
+    if (data?.format !== TEMPLATE_FILE_FORMAT || !Array.isArray(data.templates)) {
+        throw new Error('This file is not a Pose Painter template export.');
+    }
+    return data.templates.map((template: any): PromptTemplate => {
+        if (typeof template?.body !== 'string') {
+            throw new Error('A template in the file has no body.');
+        }
+        return {
+            id: crypto.randomUUID(),
+            name: typeof template.name === 'string' && template.name ? template.name : 'Imported template',
+            body: template.body,
+            style: typeof template.style === 'string' ? template.style : '',
+            negative: typeof template.negative === 'string' ? template.negative : '',
+        };
+    });
+};
@@ -0,0 +1,95 @@
+import { createGeminiProvider, GEMINI_PROVIDER_NAME } from "./geminiService";
+import { loadApiKey } from "./apiKeyStore";
+import { createMockProvider, DEFAULT_MOCK_SETTINGS } from "./mockProvider";
+import type { MockProviderSettings } from "./mockProvider";
+import type { ImageProvider, UsageListener } from "./imageProvider";
+import { withRetries } from "./retry";
+import { withTimeout } from "./cancellation";
+import { withAspectRatio } from "./aspectRatio";
+import type { RatioFit } from "./aspectRatio";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface GeminiSettings {
+    /** 'key' calls Gemini from the browser with the entered key; 'proxy' goes through the proxy server. */
+    connection: 'key' | 'proxy';
+    proxyUrl: string;
+}
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    /** Per-request time limit; 0 disables it. */
+    timeoutMs: number;
+    /** How results that ignore the requested aspect ratio are corrected. */
+    ratioFit: RatioFit;
+    gemini: GeminiSettings;
+    mock: MockProviderSettings;
+}
+
+export const DEFAULT_TIMEOUT_MS = 120000;
+
+// Set when the app is built to be served by the proxy server (`npm run serve`).
+const BUILT_FOR_PROXY = Boolean(process.env.GEMINI_PROXY_URL);
+
+export const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
+    connection: BUILT_FOR_PROXY ? 'proxy' : 'key',
+    proxyUrl: process.env.GEMINI_PROXY_URL || '/api',
+};
+
+export const PROVIDER_OPTIONS: { id: ProviderId; name: string }[] = [
+    { id: 'gemini', name: GEMINI_PROVIDER_NAME },
+    { id: 'mock', name: 'Offline Mock' },
+];
+
+const STORAGE_KEY = 'pose-painter:provider-settings';
+
+const isProviderId = (value: unknown): value is ProviderId => PROVIDER_OPTIONS.some(option => option.id === value);
+
+/**
+ * Reads the saved provider choice. A `?provider=` URL parameter takes
+ * precedence, and without a saved choice the mock is used when there is no
+ * API key and the app was not built for the proxy server.
+ */
+export const loadProviderSettings = (): ProviderSettings => {
+    let saved: Partial<ProviderSettings> = {};
+    try {
+        saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+        // Ignore corrupt settings and fall back to defaults.
+    }
+
+    const fromUrl = new URLSearchParams(window.location.search).get('provider');
+    const providerId = isProviderId(fromUrl) ? fromUrl
+        : isProviderId(saved.providerId) ? saved.providerId
+        : loadApiKey() || BUILT_FOR_PROXY ? 'gemini' : 'mock';
+
+    return {
+        providerId,
+        timeoutMs: typeof saved.timeoutMs === 'number' ? saved.timeoutMs : DEFAULT_TIMEOUT_MS,
+        ratioFit: saved.ratioFit === 'pad' ? 'pad' : 'crop',
+        gemini: { ...DEFAULT_GEMINI_SETTINGS, ...saved.gemini },
+        mock: { ...DEFAULT_MOCK_SETTINGS, ...saved.mock },
+    };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const createProvider = (settings: ProviderSettings, apiKey: string | undefined, onUsage?: UsageListener): ImageProvider => {
+    if (settings.providerId === 'mock') return createMockProvider(settings.mock, onUsage);
+    return createGeminiProvider(settings.gemini.connection === 'proxy'
+        ? { type: 'proxy', url: settings.gemini.proxyUrl }
+        : { type: 'key', apiKey }, onUsage);
+};
+
+/**
+ * Returns the selected provider with a per-request timeout, retrying
+ * transient errors automatically and correcting the aspect ratio of results.
+ * `apiKey` is only used for direct Gemini connections. Every request sent,
+ * including retries, is reported to `onUsage`.
+ */
+export const getProvider = (settings: ProviderSettings, apiKey: string | undefined, onUsage?: UsageListener): ImageProvider => withRetries(withTimeout(
+    withAspectRatio(createProvider(settings, apiKey, onUsage), settings.ratioFit),
+    settings.timeoutMs,
+));
@@ -0,0 +1,46 @@
+import { ProviderError } from "./imageProvider";
+import type { ImageProvider } from "./imageProvider";
+import { sleep } from "./cancellation";
+
+export interface RetryOptions {
+    /** Attempts after the first one. */
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+/**
+ * Runs `task`, retrying transient provider errors (rate limits, network and
+ * service outages) with exponential backoff and jitter. A delay requested by
+ * the service takes precedence. Other errors are rethrown immediately, and
+ * aborting `signal` also ends the wait between attempts.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (!(error instanceof ProviderError) || !error.isTransient || attempt >= options.retries) {
+                throw error;
+            }
+            const backoff = options.baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+            const delay = Math.min(options.maxDelayMs, error.retryAfterMs ?? backoff);
+            console.warn(`Retrying after ${error.code} error in ${Math.round(delay)} ms (attempt ${attempt + 2} of ${options.retries + 1}).`);
+            await sleep(delay, signal);
+        }
+    }
+};
+
+/** Wraps every call of a provider in `withRetry`. */
+export const withRetries = (provider: ImageProvider, options: RetryOptions = DEFAULT_RETRY_OPTIONS): ImageProvider => ({
+    ...provider,
+    generate: (params, signal, onProgress) => withRetry(() => provider.generate(params, signal, onProgress), options, signal),
+    refine: (params, signal, onProgress) => withRetry(() => provider.refine(params, signal, onProgress), options, signal),
+    inpaint: (params, signal, onProgress) => withRetry(() => provider.inpaint(params, signal, onProgress), options, signal),
+});
@@ -0,0 +1,235 @@
+import type { Point } from "../components/SketchPad";
+import type { SketchLayer } from "./sketchLayers";
+
+/**
+ * Editable vector annotations. Unlike strokes they keep their geometry, so
+ * they can be selected, moved and resized after drawing. Placement boxes mark
+ * where a character should appear and feed the structured prompt as well as
+ * the sketch image.
+ */
+export type ShapeKind = 'line' | 'rectangle' | 'ellipse' | 'arrow' | 'placement';
+
+export type DirectionKind = 'gaze' | 'motion';
+
+export interface Shape {
+    id: string;
+    kind: ShapeKind;
+    start: Point;
+    end: Point;
+    color: string;
+    width: number;
+    /** Placement boxes only: tip of the direction arrow, drawn from the box center. */
+    direction?: Point | null;
+    directionKind?: DirectionKind;
+}
+
+/** A corner (or line end) made of the x of one stored point and the y of another, or the direction arrow tip. */
+export type ShapeHandle = { x: 'start' | 'end'; y: 'start' | 'end' } | 'direction';
+
+const PLACEMENT_LINE_WIDTH = 3;
+
+export const createShape = (kind: ShapeKind, point: Point, color: string, width: number): Shape => ({
+    id: crypto.randomUUID(),
+    kind,
+    start: point,
+    end: point,
+    color,
+    width: kind === 'placement' ? PLACEMENT_LINE_WIDTH : width,
+    ...(kind === 'placement' ? { direction: null, directionKind: 'gaze' as DirectionKind } : {}),
+});
+
+const isLineKind = (kind: ShapeKind) => kind === 'line' || kind === 'arrow';
+
+export const getShapeBounds = (shape: Shape) => ({
+    left: Math.min(shape.start.x, shape.end.x),
+    top: Math.min(shape.start.y, shape.end.y),
+    right: Math.max(shape.start.x, shape.end.x),
+    bottom: Math.max(shape.start.y, shape.end.y),
+});
+
+export const getShapeCenter = (shape: Shape): Point => ({
+    x: (shape.start.x + shape.end.x) / 2,
+    y: (shape.start.y + shape.end.y) / 2,
+});
+
+const getHandles = (shape: Shape): ShapeHandle[] => {
+    const handles: ShapeHandle[] = isLineKind(shape.kind)
+        ? [{ x: 'start', y: 'start' }, { x: 'end', y: 'end' }]
+        : [{ x: 'start', y: 'start' }, { x: 'end', y: 'start' }, { x: 'start', y: 'end' }, { x: 'end', y: 'end' }];
+    return shape.direction ? [...handles, 'direction'] : handles;
+};
+
+const getHandlePoint = (shape: Shape, handle: ShapeHandle): Point => (
+    handle === 'direction' ? shape.direction! : { x: shape[handle.x].x, y: shape[handle.y].y }
+);
+
+export const hitTestShapeHandle = (shape: Shape, point: Point, radius: number): ShapeHandle | null => (
+    getHandles(shape).find(handle => {
+        const { x, y } = getHandlePoint(shape, handle);
+        return Math.hypot(x - point.x, y - point.y) <= radius;
+    }) ?? null
+);
+
+const distanceToSegment = (point: Point, a: Point, b: Point) => {
+    const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared));
+    return Math.hypot(point.x - (a.x + t * (b.x - a.x)), point.y - (a.y + t * (b.y - a.y)));
+};
+
+/** True when `point` is on a line or arrow, or inside a box-like shape (within `tolerance`). */
+export const hitTestShape = (shape: Shape, point: Point, tolerance: number): boolean => {
+    if (isLineKind(shape.kind)) {
+        return distanceToSegment(point, shape.start, shape.end) <= tolerance + shape.width / 2;
+    }
+    if (shape.direction && distanceToSegment(point, getShapeCenter(shape), shape.direction) <= tolerance) {
+        return true;
+    }
+    const { left, top, right, bottom } = getShapeBounds(shape);
+    return point.x >= left - tolerance && point.x <= right + tolerance && point.y >= top - tolerance && point.y <= bottom + tolerance;
+};
+
+export const moveShape = (shape: Shape, dx: number, dy: number): Shape => ({
+    ...shape,
+    start: { x: shape.start.x + dx, y: shape.start.y + dy },
+    end: { x: shape.end.x + dx, y: shape.end.y + dy },
+    ...(shape.direction ? { direction: { x: shape.direction.x + dx, y: shape.direction.y + dy } } : {}),
+});
+
+export const resizeShape = (shape: Shape, handle: ShapeHandle, point: Point): Shape => {
+    if (handle === 'direction') return { ...shape, direction: point };
+    const resized = {
+        ...shape,
+        start: { ...shape.start },
+        end: { ...shape.end },
+    };
+    resized[handle.x].x = point.x;
+    resized[handle.y].y = point.y;
+    if (!shape.direction) return resized;
+    // Keep the direction arrow anchored to the box center.
+    const before = getShapeCenter(shape);
+    const after = getShapeCenter(resized);
+    return { ...resized, direction: { x: shape.direction.x + after.x - before.x, y: shape.direction.y + after.y - before.y } };
+};
+
+/** Gives a placement box a default direction arrow pointing right, or removes it. */
+export const toggleShapeDirection = (shape: Shape): Shape => {
+    if (shape.direction) return { ...shape, direction: null };
+    const center = getShapeCenter(shape);
+    const { left, right } = getShapeBounds(shape);
+    return { ...shape, direction: { x: center.x + Math.max(40, (right - left) / 2), y: center.y } };
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, from: Point, to: Point, size: number) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - size * Math.cos(angle - Math.PI / 6), to.y - size * Math.sin(angle - Math.PI / 6));
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - size * Math.cos(angle + Math.PI / 6), to.y - size * Math.sin(angle + Math.PI / 6));
+    ctx.stroke();
+};
+
+/** Draws a shape; placement boxes get a translucent fill and `label` in their top-left corner. */
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape, label?: string) => {
+    const { left, top, right, bottom } = getShapeBounds(shape);
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    ctx.lineWidth = shape.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (shape.kind) {
+        case 'line':
+        case 'arrow':
+            ctx.beginPath();
+            ctx.moveTo(shape.start.x, shape.start.y);
+            ctx.lineTo(shape.end.x, shape.end.y);
+            ctx.stroke();
+            if (shape.kind === 'arrow') drawArrowHead(ctx, shape.start, shape.end, Math.max(12, shape.width * 4));
+            break;
+        case 'rectangle':
+            ctx.strokeRect(left, top, right - left, bottom - top);
+            break;
+        case 'ellipse':
+            ctx.beginPath();
+            ctx.ellipse((left + right) / 2, (top + bottom) / 2, (right - left) / 2, (bottom - top) / 2, 0, 0, Math.PI * 2);
+            ctx.stroke();
+            break;
+        case 'placement': {
+            ctx.globalAlpha = 0.12;
+            ctx.fillRect(left, top, right - left, bottom - top);
+            ctx.globalAlpha = 1;
+            ctx.setLineDash([12, 8]);
+            ctx.strokeRect(left, top, right - left, bottom - top);
+            ctx.setLineDash([]);
+            if (label) {
+                ctx.font = 'bold 18px sans-serif';
+                ctx.textBaseline = 'top';
+                ctx.fillText(label, left + 6, top + 6);
+            }
+            if (shape.direction) {
+                const center = getShapeCenter(shape);
+                ctx.lineWidth = shape.width + 1;
+                ctx.beginPath();
+                ctx.moveTo(center.x, center.y);
+                ctx.lineTo(shape.direction.x, shape.direction.y);
+                ctx.stroke();
+                drawArrowHead(ctx, center, shape.direction, 16);
+            }
+            break;
+        }
+    }
+    ctx.restore();
+};
+
+/** Draws resize handles for the selected shape (editor only). */
+export const drawShapeHandles = (ctx: CanvasRenderingContext2D, shape: Shape, size: number) => {
+    ctx.save();
+    ctx.fillStyle = '#FFFFFF';
+    ctx.strokeStyle = '#0D1117';
+    ctx.lineWidth = 1;
+    getHandles(shape).forEach(handle => {
+        const { x, y } = getHandlePoint(shape, handle);
+        ctx.fillRect(x - size / 2, y - size / 2, size, size);
+        ctx.strokeRect(x - size / 2, y - size / 2, size, size);
+    });
+    ctx.restore();
+};
+
+const HORIZONTAL_POSITIONS = ['the left third', 'the center', 'the right third'];
+const VERTICAL_POSITIONS = ['toward the top', '', 'toward the bottom'];
+const DIRECTIONS = ['right', 'down-right', 'down', 'down-left', 'left', 'up-left', 'up', 'up-right'];
+
+/** Describes a placement box in words, e.g. "occupies the left third, about 60% of the frame height, facing right". */
+export const describePlacement = (shape: Shape, width: number, height: number): string => {
+    const { left, top, right, bottom } = getShapeBounds(shape);
+    const center = getShapeCenter(shape);
+    const third = (value: number, size: number) => Math.min(2, Math.max(0, Math.floor((value / size) * 3)));
+
+    const parts = [
+        (right - left) / width > 0.8 ? 'spans the full width' : `occupies ${HORIZONTAL_POSITIONS[third(center.x, width)]}`,
+        VERTICAL_POSITIONS[third(center.y, height)],
+        `about ${Math.round(((bottom - top) / height) * 100)}% of the frame height`,
+    ];
+    if (shape.direction) {
+        const angle = Math.atan2(shape.direction.y - center.y, shape.direction.x - center.x);
+        const octant = (Math.round(angle / (Math.PI / 4)) + 8) % 8;
+        parts.push(`${shape.directionKind === 'motion' ? 'moving' : 'facing'} ${DIRECTIONS[octant]}`);
+    }
+    return parts.filter(Boolean).join(', ');
+};
+
+/** Collects placement descriptions per sketch color from the layers sent to the model. */
+export const getPlacementNotes = (layers: SketchLayer[], width: number, height: number): { [color: string]: string } => {
+    const notes: { [color: string]: string[] } = {};
+    layers
+        .filter(layer => layer.visible && layer.includeInGeneration)
+        .flatMap(layer => layer.shapes)
+        .filter(shape => shape.kind === 'placement')
+        .forEach(shape => {
+            notes[shape.color] = [...(notes[shape.color] ?? []), describePlacement(shape, width, height)];
+        });
+    return Object.fromEntries(Object.entries(notes).map(([color, descriptions]) => [color, descriptions.join('; ')]));
+};
@@ -0,0 +1,198 @@
+import type { Point } from "../components/SketchPad";
+
+/**
+ * Articulated pose figures using the OpenPose COCO-18 keypoint layout.
+ * "Right" and "left" are from the figure's point of view, so a figure facing
+ * the viewer has its right side on the left of the canvas.
+ */
+export const KEYPOINT_NAMES = [
+    'Nose', 'Neck',
+    'RShoulder', 'RElbow', 'RWrist',
+    'LShoulder', 'LElbow', 'LWrist',
+    'RHip', 'RKnee', 'RAnkle',
+    'LHip', 'LKnee', 'LAnkle',
+    'REye', 'LEye', 'REar', 'LEar',
+];
+
+export const LIMBS: [number, number][] = [
+    [1, 2], [1, 5], [2, 3], [3, 4], [5, 6], [6, 7],
+    [1, 8], [8, 9], [9, 10], [1, 11], [11, 12], [12, 13],
+    [1, 0], [0, 14], [14, 16], [0, 15], [15, 17],
+];
+
+// The conventional OpenPose palette; limb i and keypoint i use entry i.
+export const OPENPOSE_COLORS = [
+    '#FF0000', '#FF5500', '#FFAA00', '#FFFF00', '#AAFF00', '#55FF00',
+    '#00FF00', '#00FF55', '#00FFAA', '#00FFFF', '#00AAFF', '#0055FF',
+    '#0000FF', '#5500FF', '#AA00FF', '#FF00FF', '#FF00AA', '#FF0055',
+];
+
+const MIRROR_PAIRS: [number, number][] = [[2, 5], [3, 6], [4, 7], [8, 11], [9, 12], [10, 13], [14, 15], [16, 17]];
+
+// BODY_25 has a mid-hip at index 8 and extra foot points; map them onto COCO-18.
+const BODY25_TO_COCO = [0, 1, 2, 3, 4, 5, 6, 7, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18];
+
+// A front-facing standing figure, in units of its total height around its center.
+const DEFAULT_POSE: Point[] = [
+    { x: 0, y: -0.42 }, { x: 0, y: -0.3 },
+    { x: -0.1, y: -0.3 }, { x: -0.14, y: -0.15 }, { x: -0.16, y: 0 },
+    { x: 0.1, y: -0.3 }, { x: 0.14, y: -0.15 }, { x: 0.16, y: 0 },
+    { x: -0.06, y: 0.02 }, { x: -0.07, y: 0.24 }, { x: -0.07, y: 0.46 },
+    { x: 0.06, y: 0.02 }, { x: 0.07, y: 0.24 }, { x: 0.07, y: 0.46 },
+    { x: -0.025, y: -0.44 }, { x: 0.025, y: -0.44 }, { x: -0.05, y: -0.43 }, { x: 0.05, y: -0.43 },
+];
+
+export interface Skeleton {
+    id: string;
+    color: string; // sketch color of the character this figure belongs to
+    keypoints: (Point | null)[]; // indexed like KEYPOINT_NAMES; null = not visible
+}
+
+export const createSkeleton = (center: Point, height: number, color: string): Skeleton => ({
+    id: crypto.randomUUID(),
+    color,
+    keypoints: DEFAULT_POSE.map(({ x, y }) => ({ x: center.x + x * height, y: center.y + y * height })),
+});
+
+export const getSkeletonCenter = (skeleton: Skeleton): Point => {
+    const points = skeleton.keypoints.filter((point): point is Point => !!point);
+    if (points.length === 0) return { x: 0, y: 0 };
+    return {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    };
+};
+
+/** Swaps left and right joints, for a figure whose points were flipped horizontally. */
+export const swapSkeletonSides = (skeleton: Skeleton): Skeleton => {
+    const keypoints = [...skeleton.keypoints];
+    MIRROR_PAIRS.forEach(([right, left]) => {
+        [keypoints[right], keypoints[left]] = [keypoints[left], keypoints[right]];
+    });
+    return { ...skeleton, keypoints };
+};
+
+/** Flips the figure horizontally around its center and swaps left and right joints. */
+export const mirrorSkeleton = (skeleton: Skeleton): Skeleton => {
+    const center = getSkeletonCenter(skeleton);
+    return swapSkeletonSides({ ...skeleton, keypoints: skeleton.keypoints.map(point => point && { x: 2 * center.x - point.x, y: point.y }) });
+};
+
+/** Scales and rotates (in degrees) the figure around its center, then offsets it. */
+export const transformSkeleton = (skeleton: Skeleton, { scale = 1, rotation = 0, dx = 0, dy = 0 }: { scale?: number; rotation?: number; dx?: number; dy?: number }): Skeleton => {
+    const center = getSkeletonCenter(skeleton);
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return {
+        ...skeleton,
+        keypoints: skeleton.keypoints.map(point => {
+            if (!point) return null;
+            const x = (point.x - center.x) * scale;
+            const y = (point.y - center.y) * scale;
+            return { x: center.x + x * cos - y * sin + dx, y: center.y + x * sin + y * cos + dy };
+        }),
+    };
+};
+
+export const moveKeypoint = (skeleton: Skeleton, index: number, point: Point): Skeleton => ({
+    ...skeleton,
+    keypoints: skeleton.keypoints.map((keypoint, i) => i === index ? point : keypoint),
+});
+
+/** Returns the index of the joint within `radius` of `point`, or -1. */
+export const hitTestKeypoint = (skeleton: Skeleton, point: Point, radius: number): number => {
+    let closest = -1;
+    let closestDistance = radius;
+    skeleton.keypoints.forEach((keypoint, index) => {
+        if (!keypoint) return;
+        const distance = Math.hypot(keypoint.x - point.x, keypoint.y - point.y);
+        if (distance <= closestDistance) {
+            closest = index;
+            closestDistance = distance;
+        }
+    });
+    return closest;
+};
+
+/**
+ * Draws limbs in the OpenPose palette. Joints are filled with the character's
+ * sketch color so the model can tell figures apart.
+ */
+export const drawSkeleton = (ctx: CanvasRenderingContext2D, skeleton: Skeleton, lineWidth: number, selected = false) => {
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.lineCap = 'round';
+    ctx.lineWidth = lineWidth;
+    LIMBS.forEach(([from, to], index) => {
+        const start = skeleton.keypoints[from];
+        const end = skeleton.keypoints[to];
+        if (!start || !end) return;
+        ctx.strokeStyle = OPENPOSE_COLORS[index];
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+    });
+    skeleton.keypoints.forEach(point => {
+        if (!point) return;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, lineWidth * 0.9, 0, Math.PI * 2);
+        ctx.fillStyle = skeleton.color;
+        ctx.fill();
+        if (selected) {
+            ctx.lineWidth = 2;
+            ctx.strokeStyle = '#FFFFFF';
+            ctx.stroke();
+        }
+    });
+    ctx.restore();
+};
+
+/** Serializes figures in the OpenPose JSON layout (COCO-18, pixel coordinates). */
+export const toOpenPoseJson = (skeletons: Skeleton[], width: number, height: number): string => JSON.stringify({
+    version: 1.3,
+    canvas_width: width,
+    canvas_height: height,
+    people: skeletons.map(skeleton => ({
+        pose_keypoints_2d: skeleton.keypoints.flatMap(point => point ? [Math.round(point.x * 100) / 100, Math.round(point.y * 100) / 100, 1] : [0, 0, 0]),
+    })),
+}, null, 2);
+
+/**
+ * Reads OpenPose JSON with COCO-18 or BODY_25 keypoints. Normalized (0..1)
+ * coordinates and files made for a different canvas size are rescaled to
+ * `width` x `height`. Colors are assigned from `colors` in order.
+ */
+export const fromOpenPoseJson = (json: string, width: number, height: number, colors: string[]): Skeleton[] => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The pose file is not valid JSON.');
+    }
+    if (!Array.isArray(data?.people)) {
+        throw new Error('The pose file does not contain an OpenPose "people" list.');
+    }
+
+    return data.people.map((person: any, personIndex: number): Skeleton => {
+        const flat: number[] = person.pose_keypoints_2d ?? [];
+        const count = flat.length / 3;
+        if (count !== 18 && count !== 25) {
+            throw new Error(`Unsupported keypoint count (${count}); expected COCO-18 or BODY_25.`);
+        }
+        const indices = count === 25 ? BODY25_TO_COCO : KEYPOINT_NAMES.map((_, i) => i);
+        const isNormalized = flat.every((value, i) => i % 3 === 2 || value <= 1);
+        const scaleX = isNormalized ? width : data.canvas_width ? width / data.canvas_width : 1;
+        const scaleY = isNormalized ? height : data.canvas_height ? height / data.canvas_height : 1;
+
+        return {
+            id: crypto.randomUUID(),
+            color: colors[personIndex % colors.length],
+            keypoints: indices.map(index => {
+                const [x, y, confidence] = flat.slice(index * 3, index * 3 + 3);
+                return confidence > 0 ? { x: x * scaleX, y: y * scaleY } : null;
+            }),
+        };
+    });
+};
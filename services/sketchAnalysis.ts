@@ -0,0 +1,111 @@
+import type { AspectRatio, Character } from "../App";
+import type { Point } from "../components/SketchPad";
+import { getCanvasSize } from "./aspectRatio";
+import { SKELETON_LINE_WIDTH, toCanvasLayer } from "./sketchLayers";
+import type { CanvasSize, SketchLayer } from "./sketchLayers";
+import { SKETCH_COLORS } from "./sketchColors";
+
+/** The part of the canvas a color's marks cover, in canvas pixels. */
+export interface SketchBounds {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface SketchWarning {
+    /** The sketch color the warning is about, or null for the sketch as a whole. */
+    color: string | null;
+    message: string;
+}
+
+export interface SketchAnalysis {
+    /** Keyed by sketch color; only colors that appear in the sketch. */
+    bounds: { [color: string]: SketchBounds };
+    warnings: SketchWarning[];
+}
+
+type AnalyzedCharacter = Pick<Character, 'name' | 'prompt' | 'refImages' | 'color'>;
+
+// The model only sees visible layers that are included in generation.
+const isSentLayer = (layer: SketchLayer) => layer.visible && layer.includeInGeneration;
+
+const extend = (bounds: SketchBounds | undefined, { x, y }: Point, radius: number): SketchBounds => ({
+    left: Math.min(bounds?.left ?? Infinity, x - radius),
+    top: Math.min(bounds?.top ?? Infinity, y - radius),
+    right: Math.max(bounds?.right ?? -Infinity, x + radius),
+    bottom: Math.max(bounds?.bottom ?? -Infinity, y + radius),
+});
+
+/** Bounds of every brush stroke, shape and figure per color, for layers in canvas pixels. */
+const getColorBounds = (layers: SketchLayer[], { width, height }: CanvasSize): { [color: string]: SketchBounds } => {
+    const bounds: { [color: string]: SketchBounds } = {};
+    const add = (color: string, point: Point, radius: number) => {
+        bounds[color] = extend(bounds[color], point, radius);
+    };
+    layers.filter(isSentLayer).forEach(layer => {
+        layer.strokes
+            .filter(stroke => stroke.tool === 'brush')
+            .forEach(stroke => stroke.points.forEach(point => add(stroke.color, point, stroke.width / 2)));
+        layer.shapes.forEach(shape => [shape.start, shape.end].forEach(point => add(shape.color, point, shape.width / 2)));
+        layer.skeletons.forEach(skeleton => skeleton.keypoints.forEach(point => point && add(skeleton.color, point, SKELETON_LINE_WIDTH / 2)));
+    });
+    // Marks can hang over the edge; only the visible part counts.
+    return Object.fromEntries(Object.entries(bounds).map(([color, { left, top, right, bottom }]) => [color, {
+        left: Math.max(0, left),
+        top: Math.max(0, top),
+        right: Math.min(width, right),
+        bottom: Math.min(height, bottom),
+    }]));
+};
+
+const getColorName = (color: string) => SKETCH_COLORS.find(option => option.value === color)?.name ?? color;
+
+/**
+ * Checks that the sketch and the characters agree before anything is sent:
+ * every drawn color should belong to a character that has references or a
+ * description, and every such character should be drawn. `layers` are
+ * relative (see toRelativeLayer).
+ */
+export const analyzeSketch = (layers: SketchLayer[], aspectRatio: AspectRatio, characters: AnalyzedCharacter[]): SketchAnalysis => {
+    const size = getCanvasSize(aspectRatio);
+    const bounds = getColorBounds(layers.map(layer => toCanvasLayer(layer, size)), size);
+    const warnings: SketchWarning[] = [];
+
+    if (Object.keys(bounds).length === 0) {
+        warnings.push({ color: null, message: 'Nothing is drawn in the sketch, so the model will invent the poses.' });
+    }
+
+    for (const color of Object.keys(bounds)) {
+        if (!characters.some(character => character.color.value === color)) {
+            warnings.push({ color, message: `${getColorName(color)} is drawn, but no character uses that color, so the model is not told who it is.` });
+        }
+    }
+
+    characters.forEach((character, index) => {
+        const label = `${character.name || `Character ${index + 1}`} (${character.color.name})`;
+        const hasDescription = character.refImages.length > 0 || character.prompt.trim() !== '';
+        const isDrawn = !!bounds[character.color.value];
+        if (isDrawn && !hasDescription) {
+            warnings.push({ color: character.color.value, message: `${label} is drawn, but has no reference images or description.` });
+        } else if (!isDrawn && hasDescription) {
+            warnings.push({ color: character.color.value, message: `${label} has ${character.refImages.length > 0 ? 'references' : 'a description'}, but nothing is drawn in ${character.color.name.toLowerCase()}.` });
+        }
+    });
+
+    return { bounds, warnings };
+};
+
+/** The layers sent to the model with only `color`'s marks. Eraser strokes stay, so erased parts remain erased. */
+export const isolateColor = (layers: SketchLayer[], color: string): SketchLayer[] => layers.filter(isSentLayer).map(layer => ({
+    ...layer,
+    strokes: layer.strokes.filter(stroke => stroke.tool === 'eraser' || stroke.color === color),
+    shapes: layer.shapes.filter(shape => shape.color === color),
+    skeletons: layer.skeletons.filter(skeleton => skeleton.color === color),
+}));
+
+// { left: 96, right: 480, ... } on a 1200 x 800 canvas -> "8% to 40% across and 10% to 95% down"
+export const describeBounds = ({ left, top, right, bottom }: SketchBounds, { width, height }: CanvasSize): string => {
+    const percent = (value: number, total: number) => `${Math.round(value / total * 100)}%`;
+    return `${percent(left, width)} to ${percent(right, width)} across and ${percent(top, height)} to ${percent(bottom, height)} down`;
+};
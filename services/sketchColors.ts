@@ -0,0 +1,16 @@
+/** A color of the sketch that stands for one character. */
+export interface SketchColor {
+    name: string;
+    value: string;
+}
+
+export const SKETCH_COLORS: SketchColor[] = [
+    { name: 'Red', value: '#EF4444' },
+    { name: 'Blue', value: '#3B82F6' },
+    { name: 'Green', value: '#22C55E' },
+    { name: 'Yellow', value: '#EAB308' },
+    { name: 'Purple', value: '#A855F7' },
+    { name: 'Orange', value: '#F97316' },
+    { name: 'Pink', value: '#EC4899' },
+    { name: 'White', value: '#FFFFFF' },
+];
@@ -0,0 +1,206 @@
+import type { Point, Stroke } from "../components/SketchPad";
+import { drawSkeleton } from "./skeleton";
+import type { Skeleton } from "./skeleton";
+import { drawShape, drawShapeHandles } from "./shapes";
+import type { Shape } from "./shapes";
+
+export interface SketchLayer {
+    id: string;
+    name: string;
+    visible: boolean;
+    locked: boolean;
+    opacity: number; // 0..1
+    includeInGeneration: boolean;
+    /** Set for layers created for a character, so they follow its list entry. */
+    characterId: string | null;
+    strokes: Stroke[];
+    shapes: Shape[];
+    skeletons: Skeleton[];
+}
+
+export const SKELETON_LINE_WIDTH = 8;
+
+export const createLayer = (name: string, characterId: string | null = null): SketchLayer => ({
+    id: crypto.randomUUID(),
+    name,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    includeInGeneration: true,
+    characterId,
+    strokes: [],
+    shapes: [],
+    skeletons: [],
+});
+
+/** Wraps sketches saved before layers existed into a single layer. */
+export const createLegacyLayer = (strokes: Stroke[], skeletons: Skeleton[] = []): SketchLayer => ({
+    ...createLayer('Sketch'),
+    strokes,
+    skeletons,
+});
+
+/** Fills in fields added after older history entries and projects were saved. */
+export const normalizeLayer = (layer: Omit<SketchLayer, 'shapes'> & { shapes?: Shape[] }): SketchLayer => ({ ...layer, shapes: layer.shapes ?? [] });
+
+export interface CanvasSize {
+    width: number;
+    height: number;
+}
+
+/** The drawn content of a layer, without its settings. */
+export type LayerGeometry = Pick<SketchLayer, 'strokes' | 'shapes' | 'skeletons'>;
+
+/** Moves every point of a layer through `mapPoint` and scales its line widths. */
+const mapLayerGeometry = <T extends LayerGeometry>(layer: T, mapPoint: (point: Point) => Point, widthScale: number): T => ({
+    ...layer,
+    strokes: layer.strokes.map(stroke => ({
+        ...stroke,
+        width: stroke.width * widthScale,
+        points: stroke.points.map(point => ({ ...point, ...mapPoint(point) })),
+    })),
+    shapes: layer.shapes.map(shape => ({
+        ...shape,
+        width: shape.width * widthScale,
+        start: mapPoint(shape.start),
+        end: mapPoint(shape.end),
+        ...(shape.direction ? { direction: mapPoint(shape.direction) } : {}),
+    })),
+    skeletons: layer.skeletons.map(skeleton => ({ ...skeleton, keypoints: skeleton.keypoints.map(point => point && mapPoint(point)) })),
+});
+
+/**
+ * Layers are stored resolution-independent: x and y as fractions of the
+ * canvas width and height, line widths as fractions of its height. The
+ * sketch pad edits them in canvas pixels.
+ */
+export const toRelativeLayer = <T extends LayerGeometry>(layer: T, { width, height }: CanvasSize): T => (
+    mapLayerGeometry(layer, ({ x, y }) => ({ x: x / width, y: y / height }), 1 / height)
+);
+
+export const toCanvasLayer = <T extends LayerGeometry>(layer: T, { width, height }: CanvasSize): T => (
+    mapLayerGeometry(layer, ({ x, y }) => ({ x: x * width, y: y * height }), height)
+);
+
+export type RatioChangeMode = 'rescale' | 'reposition';
+
+/**
+ * Carries canvas-pixel content over to a canvas of another size without
+ * distorting it: 'rescale' shrinks it to fit if needed, 'reposition' keeps
+ * its size (possibly clipping it). Either way it stays centered.
+ */
+export const fitLayerToCanvas = <T extends LayerGeometry>(layer: T, from: CanvasSize, to: CanvasSize, mode: RatioChangeMode): T => {
+    const scale = mode === 'rescale' ? Math.min(to.width / from.width, to.height / from.height) : 1;
+    const dx = (to.width - from.width * scale) / 2;
+    const dy = (to.height - from.height * scale) / 2;
+    return mapLayerGeometry(layer, ({ x, y }) => ({ x: x * scale + dx, y: y * scale + dy }), scale);
+};
+
+export const isLayerEmpty = (layer: SketchLayer) => layer.strokes.length === 0 && layer.shapes.length === 0 && layer.skeletons.length === 0;
+
+export const updateLayer = (layers: SketchLayer[], id: string, update: (layer: SketchLayer) => SketchLayer): SketchLayer[] => (
+    layers.map(layer => layer.id === id ? update(layer) : layer)
+);
+
+/** Moves a layer one step up (towards the top of the stack) or down. */
+export const moveLayer = (layers: SketchLayer[], id: string, direction: 'up' | 'down'): SketchLayer[] => {
+    const index = layers.findIndex(layer => layer.id === id);
+    const target = direction === 'up' ? index + 1 : index - 1;
+    if (index === -1 || target < 0 || target >= layers.length) return layers;
+    const reordered = [...layers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+};
+
+/** Pen strokes taper from a quarter of the brush width at no pressure to the full width. */
+export const getPressureWidth = (width: number, pressure: number) => width * (0.25 + 0.75 * pressure);
+
+const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: (Stroke | null)[]) => {
+    strokes.forEach(stroke => {
+        if (!stroke || stroke.points.length === 0) return;
+
+        ctx.strokeStyle = stroke.color;
+        ctx.lineWidth = stroke.width;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+
+        const points = stroke.points;
+        if (points.some(point => point.pressure !== undefined)) {
+            // Width varies along the stroke, so each segment is stroked separately.
+            points.forEach((point, i) => {
+                const previous = points[Math.max(0, i - 1)];
+                ctx.beginPath();
+                ctx.lineWidth = getPressureWidth(stroke.width, ((point.pressure ?? 1) + (previous.pressure ?? 1)) / 2);
+                ctx.moveTo(previous.x, previous.y);
+                ctx.lineTo(point.x, point.y);
+                ctx.stroke();
+            });
+            return;
+        }
+
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        points.forEach(point => ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+    });
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+interface RenderLayersOptions {
+    /** An in-progress stroke, drawn into this layer. */
+    activeLayerId?: string | null;
+    currentPath?: Stroke | null;
+    currentShape?: Shape | null;
+    selectedSkeletonId?: string | null;
+    selectedShapeId?: string | null;
+    /** Text drawn on placement boxes, keyed by sketch color. */
+    placementLabels?: { [color: string]: string };
+    /** Only draw layers marked for generation (for the image sent to the model). */
+    forGeneration?: boolean;
+}
+
+/**
+ * Composites layers bottom to top. Each layer is drawn on its own scratch
+ * canvas first, so an eraser stroke only removes pixels from its own layer.
+ */
+export const renderLayers = (ctx: CanvasRenderingContext2D, layers: SketchLayer[], options: RenderLayersOptions = {}) => {
+    const { width, height } = ctx.canvas;
+    const scratch = document.createElement('canvas');
+    scratch.width = width;
+    scratch.height = height;
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) return;
+
+    layers.forEach(layer => {
+        if (!layer.visible) return;
+        if (options.forGeneration && !layer.includeInGeneration) return;
+
+        scratchCtx.clearRect(0, 0, width, height);
+        const strokes = layer.id === options.activeLayerId ? [...layer.strokes, options.currentPath ?? null] : layer.strokes;
+        drawStrokes(scratchCtx, strokes);
+        const shapes = layer.id === options.activeLayerId && options.currentShape ? [...layer.shapes, options.currentShape] : layer.shapes;
+        shapes.forEach(shape => drawShape(scratchCtx, shape, options.placementLabels?.[shape.color]));
+        layer.skeletons.forEach(skeleton => drawSkeleton(scratchCtx, skeleton, SKELETON_LINE_WIDTH, skeleton.id === options.selectedSkeletonId));
+
+        ctx.globalAlpha = layer.opacity;
+        ctx.drawImage(scratch, 0, 0);
+        ctx.globalAlpha = 1;
+    });
+
+    const selectedShape = options.selectedShapeId && layers.flatMap(layer => layer.visible ? layer.shapes : []).find(shape => shape.id === options.selectedShapeId);
+    if (selectedShape && !options.forGeneration) drawShapeHandles(ctx, selectedShape, 10);
+};
+
+/** Renders relative layers to a PNG data URL like the sketch pad does for generation, without an underlay. */
+export const renderSketchImage = (layers: SketchLayer[], size: CanvasSize, background = '#0D1117'): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not render the sketch.');
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size.width, size.height);
+    renderLayers(ctx, layers.map(layer => toCanvasLayer(layer, size)), { forGeneration: true });
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,285 @@
+import type { AspectRatio } from "../App";
+import type { Point, Stroke } from "../components/SketchPad";
+import { getCanvasSize } from "./aspectRatio";
+import { getShapeBounds, getShapeCenter } from "./shapes";
+import type { Shape } from "./shapes";
+import { LIMBS, OPENPOSE_COLORS } from "./skeleton";
+import type { Skeleton } from "./skeleton";
+import { SKELETON_LINE_WIDTH, getPressureWidth, toCanvasLayer } from "./sketchLayers";
+import type { SketchLayer } from "./sketchLayers";
+
+/**
+ * A software renderer for sketches, for places without a 2D canvas such as
+ * the batch runner. It reproduces what `renderLayers` draws for generation:
+ * strokes, erasers, shapes and pose figures, with anti-aliased round caps.
+ * Placement labels are not drawn, as in the image the app sends.
+ */
+export interface RasterImage {
+    width: number;
+    height: number;
+    /** Non-premultiplied RGBA, row by row. */
+    data: Uint8ClampedArray;
+}
+
+interface Segment {
+    from: Point;
+    to: Point;
+    width: number;
+}
+
+type Rgb = [number, number, number];
+
+// Premultiplied RGBA in 0..1, one layer.
+type Layer = Float32Array;
+
+const DASH_PATTERN = [12, 8];
+const ELLIPSE_SEGMENTS = 72;
+
+const parseColor = (color: string): Rgb => {
+    const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+    if (!hex) return [1, 1, 1];
+    const full = hex.length === 3 ? hex.replace(/./g, char => char + char) : hex;
+    return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255) as Rgb;
+};
+
+const distanceToSegment = (x: number, y: number, { from, to }: Segment) => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - from.x) * dx + (y - from.y) * dy) / lengthSquared));
+    return Math.hypot(x - (from.x + t * dx), y - (from.y + t * dy));
+};
+
+class Raster {
+    readonly width: number;
+    readonly height: number;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    createLayer(): Layer {
+        return new Float32Array(this.width * this.height * 4);
+    }
+
+    /**
+     * Strokes segments as one path with round caps and joins: overlapping
+     * segments share their coverage instead of blending twice. An eraser
+     * removes coverage instead of painting.
+     */
+    stroke(layer: Layer, segments: Segment[], color: string, erase = false) {
+        if (segments.length === 0) return;
+        let [left, top, right, bottom] = [this.width, this.height, 0, 0];
+        for (const { from, to, width } of segments) {
+            const reach = width / 2 + 1;
+            left = Math.min(left, Math.floor(Math.min(from.x, to.x) - reach));
+            top = Math.min(top, Math.floor(Math.min(from.y, to.y) - reach));
+            right = Math.max(right, Math.ceil(Math.max(from.x, to.x) + reach));
+            bottom = Math.max(bottom, Math.ceil(Math.max(from.y, to.y) + reach));
+        }
+        [left, top] = [Math.max(0, left), Math.max(0, top)];
+        [right, bottom] = [Math.min(this.width, right), Math.min(this.height, bottom)];
+        if (left >= right || top >= bottom) return;
+
+        const boxWidth = right - left;
+        const coverage = new Float32Array(boxWidth * (bottom - top));
+        for (const segment of segments) {
+            const half = segment.width / 2;
+            const x0 = Math.max(left, Math.floor(Math.min(segment.from.x, segment.to.x) - half - 1));
+            const x1 = Math.min(right, Math.ceil(Math.max(segment.from.x, segment.to.x) + half + 1));
+            const y0 = Math.max(top, Math.floor(Math.min(segment.from.y, segment.to.y) - half - 1));
+            const y1 = Math.min(bottom, Math.ceil(Math.max(segment.from.y, segment.to.y) + half + 1));
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    const value = Math.min(1, half - distanceToSegment(x + 0.5, y + 0.5, segment) + 0.5);
+                    const index = (y - top) * boxWidth + (x - left);
+                    if (value > coverage[index]) coverage[index] = value;
+                }
+            }
+        }
+
+        const rgb = parseColor(color);
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                const alpha = coverage[(y - top) * boxWidth + (x - left)];
+                if (alpha > 0) this.blend(layer, (y * this.width + x) * 4, rgb, alpha, erase);
+            }
+        }
+    }
+
+    fillRect(layer: Layer, left: number, top: number, right: number, bottom: number, color: string, opacity: number) {
+        const rgb = parseColor(color);
+        for (let y = Math.max(0, Math.floor(top)); y < Math.min(this.height, Math.ceil(bottom)); y++) {
+            // Partial edge pixels get partial coverage.
+            const rowCoverage = Math.min(y + 1, bottom) - Math.max(y, top);
+            for (let x = Math.max(0, Math.floor(left)); x < Math.min(this.width, Math.ceil(right)); x++) {
+                const coverage = rowCoverage * (Math.min(x + 1, right) - Math.max(x, left));
+                this.blend(layer, (y * this.width + x) * 4, rgb, coverage * opacity, false);
+            }
+        }
+    }
+
+    /** Source-over for paint, destination-out for erasing. */
+    private blend(layer: Layer, index: number, [r, g, b]: Rgb, alpha: number, erase: boolean) {
+        const keep = 1 - alpha;
+        if (erase) {
+            for (let i = 0; i < 4; i++) layer[index + i] *= keep;
+            return;
+        }
+        layer[index] = r * alpha + layer[index] * keep;
+        layer[index + 1] = g * alpha + layer[index + 1] * keep;
+        layer[index + 2] = b * alpha + layer[index + 2] * keep;
+        layer[index + 3] = alpha + layer[index + 3] * keep;
+    }
+
+    /** Draws `layer` over `target` at `opacity`. */
+    composite(target: Layer, layer: Layer, opacity: number) {
+        for (let i = 0; i < target.length; i += 4) {
+            const alpha = layer[i + 3] * opacity;
+            if (alpha === 0) continue;
+            const keep = 1 - alpha;
+            target[i] = layer[i] * opacity + target[i] * keep;
+            target[i + 1] = layer[i + 1] * opacity + target[i + 1] * keep;
+            target[i + 2] = layer[i + 2] * opacity + target[i + 2] * keep;
+            target[i + 3] = alpha + target[i + 3] * keep;
+        }
+    }
+}
+
+const toSegments = (points: Point[], width: number): Segment[] => (
+    points.length === 1
+        ? [{ from: points[0], to: points[0], width }]
+        : points.slice(1).map((point, i) => ({ from: points[i], to: point, width }))
+);
+
+const getStrokeSegments = ({ points, width }: Stroke): Segment[] => {
+    if (!points.some(point => point.pressure !== undefined)) return toSegments(points, width);
+    // Width varies along the stroke, as in drawStrokes.
+    return points.map((point, i) => {
+        const previous = points[Math.max(0, i - 1)];
+        return { from: previous, to: point, width: getPressureWidth(width, ((point.pressure ?? 1) + (previous.pressure ?? 1)) / 2) };
+    });
+};
+
+const getArrowHeadSegments = (from: Point, to: Point, size: number, width: number): Segment[] => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    return [-1, 1].map(side => ({
+        from: to,
+        to: { x: to.x - size * Math.cos(angle + side * Math.PI / 6), y: to.y - size * Math.sin(angle + side * Math.PI / 6) },
+        width,
+    }));
+};
+
+const getRectangleCorners = ({ left, top, right, bottom }: ReturnType<typeof getShapeBounds>): Point[] => [
+    { x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }, { x: left, y: top },
+];
+
+/** Splits a polyline into the dashes of `pattern`, carrying the pattern across corners. */
+const dashPolyline = (points: Point[], pattern: number[], width: number): Segment[] => {
+    const segments: Segment[] = [];
+    let patternIndex = 0;
+    let remaining = pattern[0];
+    points.slice(1).forEach((to, i) => {
+        const from = points[i];
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        let position = 0;
+        while (position < length) {
+            const step = Math.min(remaining, length - position);
+            if (patternIndex % 2 === 0) {
+                const at = (distance: number) => ({ x: from.x + (to.x - from.x) * distance / length, y: from.y + (to.y - from.y) * distance / length });
+                segments.push({ from: at(position), to: at(position + step), width });
+            }
+            position += step;
+            remaining -= step;
+            if (remaining <= 0) {
+                patternIndex = (patternIndex + 1) % pattern.length;
+                remaining = pattern[patternIndex];
+            }
+        }
+    });
+    return segments;
+};
+
+const drawShape = (raster: Raster, layer: Layer, shape: Shape) => {
+    const bounds = getShapeBounds(shape);
+    const { left, top, right, bottom } = bounds;
+    switch (shape.kind) {
+        case 'line':
+        case 'arrow':
+            raster.stroke(layer, [
+                { from: shape.start, to: shape.end, width: shape.width },
+                ...(shape.kind === 'arrow' ? getArrowHeadSegments(shape.start, shape.end, Math.max(12, shape.width * 4), shape.width) : []),
+            ], shape.color);
+            break;
+        case 'rectangle':
+            raster.stroke(layer, toSegments(getRectangleCorners(bounds), shape.width), shape.color);
+            break;
+        case 'ellipse': {
+            const points = Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+                const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+                return { x: (left + right) / 2 + Math.cos(angle) * (right - left) / 2, y: (top + bottom) / 2 + Math.sin(angle) * (bottom - top) / 2 };
+            });
+            raster.stroke(layer, toSegments(points, shape.width), shape.color);
+            break;
+        }
+        case 'placement':
+            raster.fillRect(layer, left, top, right, bottom, shape.color, 0.12);
+            raster.stroke(layer, dashPolyline(getRectangleCorners(bounds), DASH_PATTERN, shape.width), shape.color);
+            if (shape.direction) {
+                const center = getShapeCenter(shape);
+                raster.stroke(layer, [
+                    { from: center, to: shape.direction, width: shape.width + 1 },
+                    ...getArrowHeadSegments(center, shape.direction, 16, shape.width + 1),
+                ], shape.color);
+            }
+            break;
+    }
+};
+
+const drawSkeleton = (raster: Raster, layer: Layer, skeleton: Skeleton, lineWidth: number) => {
+    LIMBS.forEach(([from, to], index) => {
+        const start = skeleton.keypoints[from];
+        const end = skeleton.keypoints[to];
+        if (start && end) raster.stroke(layer, [{ from: start, to: end, width: lineWidth }], OPENPOSE_COLORS[index]);
+    });
+    skeleton.keypoints.forEach(point => {
+        if (point) raster.stroke(layer, [{ from: point, to: point, width: lineWidth * 1.8 }], skeleton.color);
+    });
+};
+
+/**
+ * Renders relative layers the way the sketch pad exports them for
+ * generation: only visible layers marked for generation, over `background`.
+ */
+export const rasterizeSketch = (layers: SketchLayer[], aspectRatio: AspectRatio, background = '#0D1117'): RasterImage => {
+    const size = getCanvasSize(aspectRatio);
+    const raster = new Raster(size.width, size.height);
+    const image = raster.createLayer();
+    raster.fillRect(image, 0, 0, size.width, size.height, background, 1);
+
+    const scratch = raster.createLayer();
+    layers
+        .filter(layer => layer.visible && layer.includeInGeneration)
+        .map(layer => toCanvasLayer(layer, size))
+        .forEach(layer => {
+            scratch.fill(0);
+            layer.strokes.forEach(stroke => {
+                if (stroke.points.length > 0) raster.stroke(scratch, getStrokeSegments(stroke), stroke.color, stroke.tool === 'eraser');
+            });
+            layer.shapes.forEach(shape => drawShape(raster, scratch, shape));
+            layer.skeletons.forEach(skeleton => drawSkeleton(raster, scratch, skeleton, SKELETON_LINE_WIDTH));
+            raster.composite(image, scratch, layer.opacity);
+        });
+
+    const data = new Uint8ClampedArray(image.length);
+    for (let i = 0; i < image.length; i += 4) {
+        const alpha = image[i + 3];
+        if (alpha === 0) continue;
+        data[i] = (image[i] / alpha) * 255;
+        data[i + 1] = (image[i + 1] / alpha) * 255;
+        data[i + 2] = (image[i + 2] / alpha) * 255;
+        data[i + 3] = alpha * 255;
+    }
+    return { width: size.width, height: size.height, data };
+};
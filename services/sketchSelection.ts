@@ -0,0 +1,270 @@
+import type { Point } from "../components/SketchPad";
+import type { SketchBounds } from "./sketchAnalysis";
+import type { LayerGeometry, SketchLayer } from "./sketchLayers";
+import { getShapeBounds, getShapeCenter } from "./shapes";
+import type { Shape } from "./shapes";
+import { swapSkeletonSides } from "./skeleton";
+
+/**
+ * Picking and transforming parts of a layer: strokes, shapes and figures
+ * inside a lasso or box can be moved, scaled, rotated, flipped, recolored
+ * and copied. Everything here works in canvas pixels.
+ */
+export interface SketchSelection {
+    layerId: string;
+    /** Indices into the layer's strokes, which have no ids. */
+    strokes: number[];
+    shapes: string[];
+    skeletons: string[];
+}
+
+export interface SelectionTransform {
+    dx: number;
+    dy: number;
+    scale: number;
+    /** Degrees, clockwise. */
+    rotation: number;
+    /** Mirror horizontally before scaling and rotating. */
+    flip: boolean;
+}
+
+export type SelectionHandle = 'move' | 'rotate' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export const IDENTITY_TRANSFORM: SelectionTransform = { dx: 0, dy: 0, scale: 1, rotation: 0, flip: false };
+
+// Keeps the rotate handle clear of the top edge.
+const ROTATE_HANDLE_OFFSET = 30;
+// Stops a scale drag from collapsing the selection to nothing.
+const MIN_SCALE = 0.05;
+
+const isBoxKind = (shape: Shape) => shape.kind !== 'line' && shape.kind !== 'arrow';
+
+/** True when `point` lies inside the polygon `area` (even-odd rule). */
+const isInside = (point: Point, area: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = area.length - 1; i < area.length; j = i++) {
+        const a = area[i];
+        const b = area[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// Items count as enclosed when most of their points are, so a loose lasso around a figure still catches it.
+const isMostlyInside = (points: Point[], area: Point[]) => (
+    points.length > 0 && points.filter(point => isInside(point, area)).length * 2 >= points.length
+);
+
+export const getBoxArea = (start: Point, end: Point): Point[] => [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+
+export const isSelectionEmpty = (selection: SketchSelection) => (
+    selection.strokes.length === 0 && selection.shapes.length === 0 && selection.skeletons.length === 0
+);
+
+/** Selects what the polygon `area` encloses on `layer`, or returns null if it encloses nothing. */
+export const selectInArea = (layer: SketchLayer, area: Point[]): SketchSelection | null => {
+    if (area.length < 3) return null;
+    const selection: SketchSelection = {
+        layerId: layer.id,
+        strokes: layer.strokes.flatMap((stroke, index) => isMostlyInside(stroke.points, area) ? [index] : []),
+        shapes: layer.shapes.filter(shape => isMostlyInside([shape.start, shape.end, getShapeCenter(shape)], area)).map(shape => shape.id),
+        skeletons: layer.skeletons.filter(skeleton => isMostlyInside(skeleton.keypoints.filter((point): point is Point => !!point), area)).map(skeleton => skeleton.id),
+    };
+    return isSelectionEmpty(selection) ? null : selection;
+};
+
+export const getSelectedGeometry = (layer: SketchLayer, selection: SketchSelection): LayerGeometry => ({
+    strokes: layer.strokes.filter((_, index) => selection.strokes.includes(index)),
+    shapes: layer.shapes.filter(shape => selection.shapes.includes(shape.id)),
+    skeletons: layer.skeletons.filter(skeleton => selection.skeletons.includes(skeleton.id)),
+});
+
+/** Puts transformed copies of the selected items back in their places; `geometry` is ordered like getSelectedGeometry. */
+export const replaceSelection = (layer: SketchLayer, selection: SketchSelection, geometry: LayerGeometry): SketchLayer => {
+    const strokes = [...geometry.strokes];
+    const shapes = [...geometry.shapes];
+    const skeletons = [...geometry.skeletons];
+    return {
+        ...layer,
+        strokes: layer.strokes.map((stroke, index) => selection.strokes.includes(index) ? strokes.shift() ?? stroke : stroke),
+        shapes: layer.shapes.map(shape => selection.shapes.includes(shape.id) ? shapes.shift() ?? shape : shape),
+        skeletons: layer.skeletons.map(skeleton => selection.skeletons.includes(skeleton.id) ? skeletons.shift() ?? skeleton : skeleton),
+    };
+};
+
+export const removeSelection = (layer: SketchLayer, selection: SketchSelection): SketchLayer => ({
+    ...layer,
+    strokes: layer.strokes.filter((_, index) => !selection.strokes.includes(index)),
+    shapes: layer.shapes.filter(shape => !selection.shapes.includes(shape.id)),
+    skeletons: layer.skeletons.filter(skeleton => !selection.skeletons.includes(skeleton.id)),
+});
+
+/** Adds copies of `geometry` on top of the layer, with new ids, and selects them. */
+export const appendGeometry = (layer: SketchLayer, geometry: LayerGeometry): { layer: SketchLayer; selection: SketchSelection } => {
+    const shapes = geometry.shapes.map(shape => ({ ...shape, id: crypto.randomUUID() }));
+    const skeletons = geometry.skeletons.map(skeleton => ({ ...skeleton, id: crypto.randomUUID() }));
+    return {
+        layer: {
+            ...layer,
+            strokes: [...layer.strokes, ...geometry.strokes],
+            shapes: [...layer.shapes, ...shapes],
+            skeletons: [...layer.skeletons, ...skeletons],
+        },
+        selection: {
+            layerId: layer.id,
+            strokes: geometry.strokes.map((_, index) => layer.strokes.length + index),
+            shapes: shapes.map(shape => shape.id),
+            skeletons: skeletons.map(skeleton => skeleton.id),
+        },
+    };
+};
+
+/** The area covered by `geometry`, including line widths, or null when it is empty. */
+export const getGeometryBounds = ({ strokes, shapes, skeletons }: LayerGeometry): SketchBounds | null => {
+    const bounds = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity };
+    const add = ({ x, y }: Point, radius: number) => {
+        bounds.left = Math.min(bounds.left, x - radius);
+        bounds.top = Math.min(bounds.top, y - radius);
+        bounds.right = Math.max(bounds.right, x + radius);
+        bounds.bottom = Math.max(bounds.bottom, y + radius);
+    };
+    strokes.forEach(stroke => stroke.points.forEach(point => add(point, stroke.width / 2)));
+    shapes.forEach(shape => {
+        const { left, top, right, bottom } = getShapeBounds(shape);
+        add({ x: left, y: top }, shape.width / 2);
+        add({ x: right, y: bottom }, shape.width / 2);
+        if (shape.direction) add(shape.direction, 0);
+    });
+    skeletons.forEach(skeleton => skeleton.keypoints.forEach(point => point && add(point, 0)));
+    return bounds.left <= bounds.right ? bounds : null;
+};
+
+export const getBoundsCenter = ({ left, top, right, bottom }: SketchBounds): Point => ({ x: (left + right) / 2, y: (top + bottom) / 2 });
+
+/**
+ * Flips, scales and rotates `geometry` around `pivot`, then moves it. Boxes,
+ * ellipses and placement boxes stay upright: only their centers rotate.
+ */
+export const transformGeometry = (geometry: LayerGeometry, pivot: Point, { dx, dy, scale, rotation, flip }: SelectionTransform): LayerGeometry => {
+    const radians = rotation * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const mapPoint = <T extends Point>(point: T): T => {
+        const x = (point.x - pivot.x) * (flip ? -1 : 1) * scale;
+        const y = (point.y - pivot.y) * scale;
+        return { ...point, x: pivot.x + x * cos - y * sin + dx, y: pivot.y + x * sin + y * cos + dy };
+    };
+
+    const mapShape = (shape: Shape): Shape => {
+        const direction = shape.direction ? { direction: mapPoint(shape.direction) } : {};
+        if (!isBoxKind(shape)) return { ...shape, width: shape.width * scale, start: mapPoint(shape.start), end: mapPoint(shape.end), ...direction };
+        const center = getShapeCenter(shape);
+        const moved = mapPoint(center);
+        const halfWidth = Math.abs(shape.end.x - shape.start.x) / 2 * scale;
+        const halfHeight = Math.abs(shape.end.y - shape.start.y) / 2 * scale;
+        return {
+            ...shape,
+            width: shape.width * scale,
+            start: { x: moved.x - halfWidth, y: moved.y - halfHeight },
+            end: { x: moved.x + halfWidth, y: moved.y + halfHeight },
+            ...direction,
+        };
+    };
+
+    return {
+        strokes: geometry.strokes.map(stroke => ({ ...stroke, width: stroke.width * scale, points: stroke.points.map(mapPoint) })),
+        shapes: geometry.shapes.map(mapShape),
+        skeletons: geometry.skeletons.map(skeleton => {
+            const mapped = { ...skeleton, keypoints: skeleton.keypoints.map(point => point && mapPoint(point)) };
+            // A mirrored figure's right arm is now on the other side.
+            return flip ? swapSkeletonSides(mapped) : mapped;
+        }),
+    };
+};
+
+/** Gives every brush stroke, shape and figure `color`; eraser strokes keep theirs. */
+export const recolorGeometry = (geometry: LayerGeometry, color: string): LayerGeometry => ({
+    strokes: geometry.strokes.map(stroke => stroke.tool === 'eraser' ? stroke : { ...stroke, color }),
+    shapes: geometry.shapes.map(shape => ({ ...shape, color })),
+    skeletons: geometry.skeletons.map(skeleton => ({ ...skeleton, color })),
+});
+
+const getHandlePoints = ({ left, top, right, bottom }: SketchBounds): [Exclude<SelectionHandle, 'move'>, Point][] => [
+    ['top-left', { x: left, y: top }],
+    ['top-right', { x: right, y: top }],
+    ['bottom-left', { x: left, y: bottom }],
+    ['bottom-right', { x: right, y: bottom }],
+    ['rotate', { x: (left + right) / 2, y: top - ROTATE_HANDLE_OFFSET }],
+];
+
+/** Returns the handle at `point`, 'move' inside the bounds, or null outside. */
+export const hitTestSelection = (bounds: SketchBounds, point: Point, radius: number): SelectionHandle | null => {
+    const handle = getHandlePoints(bounds).find(([, { x, y }]) => Math.hypot(x - point.x, y - point.y) <= radius);
+    if (handle) return handle[0];
+    const { left, top, right, bottom } = bounds;
+    return point.x >= left && point.x <= right && point.y >= top && point.y <= bottom ? 'move' : null;
+};
+
+/**
+ * The transform a drag from `start` to `point` on `handle` describes. Corner
+ * handles scale uniformly around `pivot`; the rotate handle turns around it,
+ * in 15° steps when `snap` is set.
+ */
+export const getDragTransform = (handle: SelectionHandle, pivot: Point, start: Point, point: Point, snap = false): SelectionTransform => {
+    if (handle === 'move') return { ...IDENTITY_TRANSFORM, dx: point.x - start.x, dy: point.y - start.y };
+    if (handle === 'rotate') {
+        const angle = (Math.atan2(point.y - pivot.y, point.x - pivot.x) - Math.atan2(start.y - pivot.y, start.x - pivot.x)) * 180 / Math.PI;
+        return { ...IDENTITY_TRANSFORM, rotation: snap ? Math.round(angle / 15) * 15 : angle };
+    }
+    const from = Math.hypot(start.x - pivot.x, start.y - pivot.y);
+    const to = Math.hypot(point.x - pivot.x, point.y - pivot.y);
+    return { ...IDENTITY_TRANSFORM, scale: from > 0 ? Math.max(MIN_SCALE, to / from) : 1 };
+};
+
+/** Draws the selection outline with its scale and rotate handles (editor only). */
+export const drawSelection = (ctx: CanvasRenderingContext2D, bounds: SketchBounds, handleSize: number) => {
+    const { left, top, right, bottom } = bounds;
+    ctx.save();
+    ctx.strokeStyle = '#60A5FA';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(left, top, right - left, bottom - top);
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo((left + right) / 2, top);
+    ctx.lineTo((left + right) / 2, top - ROTATE_HANDLE_OFFSET);
+    ctx.stroke();
+    ctx.fillStyle = '#FFFFFF';
+    ctx.strokeStyle = '#0D1117';
+    ctx.lineWidth = 1;
+    getHandlePoints(bounds).forEach(([handle, { x, y }]) => {
+        ctx.beginPath();
+        if (handle === 'rotate') {
+            ctx.arc(x, y, handleSize / 2, 0, Math.PI * 2);
+        } else {
+            ctx.rect(x - handleSize / 2, y - handleSize / 2, handleSize, handleSize);
+        }
+        ctx.fill();
+        ctx.stroke();
+    });
+    ctx.restore();
+};
+
+/** Draws the lasso or box being dragged out. */
+export const drawSelectionArea = (ctx: CanvasRenderingContext2D, area: Point[]) => {
+    if (area.length < 2) return;
+    ctx.save();
+    ctx.strokeStyle = '#60A5FA';
+    ctx.fillStyle = 'rgba(96, 165, 250, 0.1)';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(area[0].x, area[0].y);
+    area.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+};
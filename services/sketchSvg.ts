@@ -0,0 +1,387 @@
+import type { Point, Stroke } from "../components/SketchPad";
+import { SKETCH_COLORS } from "./sketchColors";
+import type { CanvasSize, SketchLayer } from "./sketchLayers";
+
+/**
+ * Brush strokes as SVG: one group per color, labeled with the character
+ * drawn in it, and one path per stroke with its width. Attributes in the
+ * `data-` namespace keep what SVG cannot show (pen pressure, the eraser and
+ * the drawing order), so our own files import back exactly. Other SVGs are
+ * flattened into strokes, snapping their colors to the sketch palette.
+ */
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const BACKGROUND_COLOR = '#0D1117';
+const CURVE_SEGMENTS = 16;
+
+// A transform as [a, b, c, d, e, f], mapping (x, y) to (ax + cy + e, bx + dy + f).
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = ([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix => [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+];
+
+const apply = ([a, b, c, d, e, f]: Matrix, { x, y }: Point): Point => ({ x: a * x + c * y + e, y: b * x + d * y + f });
+
+// How much a transform scales line widths, averaged over both axes.
+const getScale = ([a, b, c, d]: Matrix) => Math.sqrt(Math.abs(a * d - b * c));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const escapeXml = (text: string) => text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[char]!));
+
+const toPathData = (points: Point[]) => {
+    const [first, ...rest] = points.map(({ x, y }) => `${round(x)} ${round(y)}`);
+    // A single point still needs a segment for the round cap to draw a dot.
+    return `M${first} L${rest.length > 0 ? rest.join(' ') : first}`;
+};
+
+const getColorName = (value: string) => SKETCH_COLORS.find(color => color.value.toLowerCase() === value.toLowerCase())?.name;
+
+/**
+ * Serializes the strokes of visible layers, in canvas pixels. `colorLabels`
+ * names the character drawn in each color. Erasers are drawn last in the
+ * background color, which looks right on the app's background; on import
+ * they become eraser strokes again.
+ */
+export const createSketchSvg = (layers: SketchLayer[], { width, height }: CanvasSize, colorLabels: { [color: string]: string } = {}): string => {
+    const strokes = layers.filter(layer => layer.visible).flatMap(layer => layer.strokes).filter(stroke => stroke.points.length > 0);
+    const groups = new Map<string, string[]>();
+    strokes.forEach((stroke, order) => {
+        const key = stroke.tool === 'eraser' ? 'eraser' : stroke.color.toUpperCase();
+        const pressure = stroke.points.some(point => point.pressure !== undefined)
+            ? ` data-pressure="${stroke.points.map(point => round(point.pressure ?? 1)).join(' ')}"`
+            : '';
+        const path = `<path d="${toPathData(stroke.points)}" stroke-width="${round(stroke.width)}" data-order="${order}"${pressure}/>`;
+        groups.set(key, [...(groups.get(key) ?? []), path]);
+    });
+
+    const body = [...groups.entries()]
+        // Erasers go on top so they cover what they erased.
+        .sort(([a], [b]) => Number(a === 'eraser') - Number(b === 'eraser'))
+        .map(([key, paths]) => {
+            if (key === 'eraser') {
+                return `  <g id="eraser" data-tool="eraser" stroke="${BACKGROUND_COLOR}">\n    <title>Eraser</title>\n    ${paths.join('\n    ')}\n  </g>`;
+            }
+            const name = getColorName(key) ?? key;
+            const label = colorLabels[key];
+            const id = `color-${name.toLowerCase().replace(/[^a-z0-9]+/g, '')}`;
+            const character = label ? ` data-character="${escapeXml(label)}"` : '';
+            return `  <g id="${id}" stroke="${key}"${character}>\n    <title>${escapeXml(label ? `${label} (${name})` : name)}</title>\n    ${paths.join('\n    ')}\n  </g>`;
+        });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="${SVG_NAMESPACE}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" stroke-linecap="round" stroke-linejoin="round">
+  <rect width="${width}" height="${height}" fill="${BACKGROUND_COLOR}" data-background="true"/>
+${body.join('\n')}
+</svg>
+`;
+};
+
+const parseNumbers = (text: string) => (text.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+
+const parseTransform = (text: string | null): Matrix => {
+    let matrix = IDENTITY;
+    for (const [, name, args] of (text ?? '').matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+        const [p0 = 0, p1, p2, p3 = 0, p4 = 0, p5 = 0] = parseNumbers(args);
+        const radians = (p0 * Math.PI) / 180;
+        let next: Matrix = IDENTITY;
+        switch (name) {
+            case 'matrix': next = [p0, p1 ?? 0, p2 ?? 0, p3, p4, p5]; break;
+            case 'translate': next = [1, 0, 0, 1, p0, p1 ?? 0]; break;
+            case 'scale': next = [p0, 0, 0, p1 ?? p0, 0, 0]; break;
+            case 'rotate': {
+                const rotation: Matrix = [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0];
+                const [cx, cy] = [p1 ?? 0, p2 ?? 0];
+                next = multiply(multiply([1, 0, 0, 1, cx, cy], rotation), [1, 0, 0, 1, -cx, -cy]);
+                break;
+            }
+            case 'skewX': next = [1, 0, Math.tan(radians), 1, 0, 0]; break;
+            case 'skewY': next = [1, Math.tan(radians), 0, 1, 0, 0]; break;
+        }
+        matrix = multiply(matrix, next);
+    }
+    return matrix;
+};
+
+const sampleCurve = (points: Point[], at: (t: number) => Point) => {
+    for (let i = 1; i <= CURVE_SEGMENTS; i++) points.push(at(i / CURVE_SEGMENTS));
+};
+
+const cubicAt = (p0: Point, p1: Point, p2: Point, p3: Point) => (t: number): Point => {
+    const u = 1 - t;
+    return {
+        x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+        y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+};
+
+const quadraticAt = (p0: Point, p1: Point, p2: Point) => (t: number): Point => {
+    const u = 1 - t;
+    return { x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x, y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y };
+};
+
+/** An elliptical arc from `from` to `to`, converted to center form (SVG spec, appendix B.2.4). */
+const arcAt = (from: Point, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, to: Point) => {
+    if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return (t: number): Point => ({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+    const phi = (angle * Math.PI) / 180;
+    const [cos, sin] = [Math.cos(phi), Math.sin(phi)];
+    const dx = (from.x - to.x) / 2;
+    const dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    // Radii too small to reach the end point are scaled up.
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    [rx, ry] = lambda > 1 ? [Math.abs(rx) * Math.sqrt(lambda), Math.abs(ry) * Math.sqrt(lambda)] : [Math.abs(rx), Math.abs(ry)];
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+    const cx1 = (factor * rx * y1) / ry;
+    const cy1 = (-factor * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+    const start = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+    let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - start;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    return (t: number): Point => {
+        const theta = start + delta * t;
+        return { x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin, y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos };
+    };
+};
+
+/** Flattens path data into polylines, one per subpath. */
+const parsePathData = (data: string): Point[][] => {
+    const tokens = data.match(/[a-z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? [];
+    const subpaths: Point[][] = [];
+    let points: Point[] = [];
+    let current: Point = { x: 0, y: 0 };
+    let start: Point = current;
+    // The last control point and command, for the reflected control point of S and T.
+    let lastControl: Point | null = null;
+    let lastType = '';
+    let command = '';
+    let i = 0;
+
+    const next = () => Number(tokens[i++]);
+    const nextPoint = (relative: boolean): Point => {
+        const x = next();
+        const y = next();
+        return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    };
+    const reflect = (types: string) => lastControl && types.includes(lastType)
+        ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+        : current;
+    const finish = () => {
+        // A lone moveto draws nothing.
+        if (points.length > 1) subpaths.push(points);
+        points = [];
+    };
+
+    while (i < tokens.length) {
+        if (/[a-z]/i.test(tokens[i])) command = tokens[i++];
+        else if (!command) break;
+        const relative = command === command.toLowerCase();
+        const type = command.toUpperCase();
+        let control: Point | null = null;
+        // Drawing after a closepath starts a new subpath at the closing point.
+        if (type !== 'M' && type !== 'Z' && points.length === 0) points.push(current);
+
+        switch (type) {
+            case 'M':
+                finish();
+                current = nextPoint(relative);
+                start = current;
+                points.push(current);
+                // Further coordinate pairs after a moveto are linetos.
+                command = relative ? 'l' : 'L';
+                break;
+            case 'L':
+                current = nextPoint(relative);
+                points.push(current);
+                break;
+            case 'H':
+                current = { x: (relative ? current.x : 0) + next(), y: current.y };
+                points.push(current);
+                break;
+            case 'V':
+                current = { x: current.x, y: (relative ? current.y : 0) + next() };
+                points.push(current);
+                break;
+            case 'C':
+            case 'S': {
+                const c1 = type === 'C' ? nextPoint(relative) : reflect('CS');
+                const c2 = nextPoint(relative);
+                const end = nextPoint(relative);
+                sampleCurve(points, cubicAt(current, c1, c2, end));
+                control = c2;
+                current = end;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const c = type === 'Q' ? nextPoint(relative) : reflect('QT');
+                const end = nextPoint(relative);
+                sampleCurve(points, quadraticAt(current, c, end));
+                control = c;
+                current = end;
+                break;
+            }
+            case 'A': {
+                const [rx, ry, angle, largeArc, sweep] = [next(), next(), next(), next(), next()];
+                const end = nextPoint(relative);
+                sampleCurve(points, arcAt(current, rx, ry, angle, !!largeArc, !!sweep, end));
+                current = end;
+                break;
+            }
+            case 'Z':
+                if (points.length > 0) points.push(start);
+                current = start;
+                finish();
+                break;
+            default:
+                // Unknown commands make the rest of the data unreliable.
+                i = tokens.length;
+        }
+        lastControl = control;
+        lastType = type;
+        // Truncated data: keep what was complete.
+        if (Number.isNaN(current.x) || Number.isNaN(current.y)) {
+            points = points.filter(point => !Number.isNaN(point.x) && !Number.isNaN(point.y));
+            break;
+        }
+    }
+    finish();
+    return subpaths;
+};
+
+const SKIPPED_ELEMENTS = ['defs', 'mask', 'clippath', 'symbol', 'marker', 'pattern', 'title', 'desc', 'metadata', 'style', 'text', 'image'];
+
+const attribute = (element: Element, name: string) => parseFloat(element.getAttribute(name) ?? '') || 0;
+
+const ellipsePoints = (cx: number, cy: number, rx: number, ry: number): Point[] => (
+    Array.from({ length: CURVE_SEGMENTS * 4 + 1 }, (_, i) => {
+        const angle = (i / (CURVE_SEGMENTS * 4)) * Math.PI * 2;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+    })
+);
+
+/** The outline of a basic shape or path, in the element's own coordinates. */
+const getElementPolylines = (element: Element): Point[][] => {
+    switch (element.localName) {
+        case 'path':
+            return parsePathData(element.getAttribute('d') ?? '');
+        case 'line':
+            return [[{ x: attribute(element, 'x1'), y: attribute(element, 'y1') }, { x: attribute(element, 'x2'), y: attribute(element, 'y2') }]];
+        case 'polyline':
+        case 'polygon': {
+            const numbers = parseNumbers(element.getAttribute('points') ?? '');
+            const points = Array.from({ length: Math.floor(numbers.length / 2) }, (_, i) => ({ x: numbers[2 * i], y: numbers[2 * i + 1] }));
+            return points.length === 0 ? [] : [element.localName === 'polygon' ? [...points, points[0]] : points];
+        }
+        case 'rect': {
+            const [x, y, w, h] = ['x', 'y', 'width', 'height'].map(name => attribute(element, name));
+            return w > 0 && h > 0 ? [[{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }, { x, y }]] : [];
+        }
+        case 'circle': {
+            const r = attribute(element, 'r');
+            return r > 0 ? [ellipsePoints(attribute(element, 'cx'), attribute(element, 'cy'), r, r)] : [];
+        }
+        case 'ellipse': {
+            const [rx, ry] = [attribute(element, 'rx'), attribute(element, 'ry')];
+            return rx > 0 && ry > 0 ? [ellipsePoints(attribute(element, 'cx'), attribute(element, 'cy'), rx, ry)] : [];
+        }
+        default:
+            return [];
+    }
+};
+
+/** A presentation attribute or inline style property, inherited from ancestors. */
+const getStyle = (element: Element, name: string): string | null => {
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        const inline = node.getAttribute('style')?.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`))?.[1];
+        const value = inline ?? node.getAttribute(name);
+        if (value && value !== 'inherit') return value.trim();
+    }
+    return null;
+};
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/** Any CSS color as the closest sketch color, so imported strokes still map to characters. */
+const toSketchColor = (value: string, ctx: CanvasRenderingContext2D): string | null => {
+    if (value === 'none' || value === 'transparent' || value.startsWith('url(')) return null;
+    ctx.fillStyle = '#000000';
+    ctx.fillStyle = value;
+    const normalized = String(ctx.fillStyle);
+    if (!normalized.startsWith('#')) return null;
+    const rgb = hexToRgb(normalized);
+    const distance = (color: string) => hexToRgb(color).reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+    return SKETCH_COLORS.reduce((best, color) => distance(color.value) < distance(best.value) ? color : best).value;
+};
+
+/**
+ * Reads the paths and basic shapes of an SVG as strokes, scaled to fit
+ * `size` and centered. Unstroked shapes become outlines in their fill color.
+ */
+export const parseSketchSvg = (text: string, size: CanvasSize): Stroke[] => {
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const svg = doc.documentElement;
+    if (doc.querySelector('parsererror') || svg.localName !== 'svg') {
+        throw new Error('The file is not a valid SVG.');
+    }
+
+    const viewBox = parseNumbers(svg.getAttribute('viewBox') ?? '');
+    const [minX, minY, width, height] = viewBox.length === 4
+        ? viewBox
+        : [0, 0, attribute(svg, 'width') || size.width, attribute(svg, 'height') || size.height];
+    const fit = Math.min(size.width / width, size.height / height);
+    const root: Matrix = [fit, 0, 0, fit, (size.width - width * fit) / 2 - minX * fit, (size.height - height * fit) / 2 - minY * fit];
+
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+
+    const strokes: { stroke: Stroke; order: number | null }[] = [];
+    const visit = (element: Element, matrix: Matrix) => {
+        if (SKIPPED_ELEMENTS.includes(element.localName.toLowerCase())) return;
+        if (element.getAttribute('data-background') || getStyle(element, 'display') === 'none' || element.getAttribute('visibility') === 'hidden') return;
+        const transform = element === svg ? matrix : multiply(matrix, parseTransform(element.getAttribute('transform')));
+
+        const polylines = getElementPolylines(element);
+        if (polylines.length > 0) {
+            const isEraser = !!element.closest('[data-tool="eraser"]');
+            const stroke = getStyle(element, 'stroke');
+            const paint = stroke && stroke !== 'none' ? stroke : getStyle(element, 'fill') ?? '#000000';
+            const color = isEraser ? '#000000' : toSketchColor(paint, ctx);
+            const width = (parseFloat(getStyle(element, 'stroke-width') ?? '1') || 1) * getScale(transform);
+            const pressures = parseNumbers(element.getAttribute('data-pressure') ?? '');
+            const order = element.hasAttribute('data-order') ? Number(element.getAttribute('data-order')) : null;
+            if (color) {
+                polylines.forEach(polyline => strokes.push({
+                    stroke: {
+                        points: polyline.map((point, i) => {
+                            const mapped = apply(transform, point);
+                            return pressures.length === polyline.length ? { ...mapped, pressure: pressures[i] } : mapped;
+                        }),
+                        color,
+                        width,
+                        tool: isEraser ? 'eraser' : 'brush',
+                    },
+                    order,
+                }));
+            }
+        }
+        Array.from(element.children).forEach(child => visit(child, transform));
+    };
+    visit(svg, root);
+
+    if (strokes.length === 0) throw new Error('The SVG contains no paths or shapes to import.');
+    // Files we exported keep the original drawing order across color groups.
+    if (strokes.every(({ order }) => order !== null)) strokes.sort((a, b) => a.order! - b.order!);
+    return strokes.map(({ stroke }) => stroke);
+};
@@ -0,0 +1,60 @@
+/**
+ * A trace-over image shown beneath the sketch, so figures can be drawn to
+ * line up with the background. It is not part of any layer; whether the
+ * model sees it is controlled by `includeInExport`.
+ */
+export type UnderlaySource = 'none' | 'background' | 'custom';
+
+export type UnderlayFit = 'contain' | 'cover' | 'stretch';
+
+export interface UnderlaySettings {
+    source: UnderlaySource;
+    opacity: number; // 0..1
+    fit: UnderlayFit;
+    /** Extra zoom on top of the fit, for cropping. 1 = none. */
+    zoom: number;
+    /** Which part of an image larger than the canvas stays visible, per axis (0.5 = centered). */
+    focusX: number;
+    focusY: number;
+    /** Send the sketch composited over the underlay (as shown) instead of the sketch alone. */
+    includeInExport: boolean;
+}
+
+export const DEFAULT_UNDERLAY: UnderlaySettings = {
+    source: 'background',
+    opacity: 0.4,
+    fit: 'cover',
+    zoom: 1,
+    focusX: 0.5,
+    focusY: 0.5,
+    includeInExport: false,
+};
+
+/** Where the image lands on a `width` x `height` canvas. */
+export const getUnderlayRect = (imageWidth: number, imageHeight: number, width: number, height: number, settings: UnderlaySettings) => {
+    let drawWidth = width;
+    let drawHeight = height;
+    if (settings.fit !== 'stretch') {
+        const scale = settings.fit === 'cover'
+            ? Math.max(width / imageWidth, height / imageHeight)
+            : Math.min(width / imageWidth, height / imageHeight);
+        drawWidth = imageWidth * scale;
+        drawHeight = imageHeight * scale;
+    }
+    drawWidth *= settings.zoom;
+    drawHeight *= settings.zoom;
+    return {
+        x: (width - drawWidth) * settings.focusX,
+        y: (height - drawHeight) * settings.focusY,
+        width: drawWidth,
+        height: drawHeight,
+    };
+};
+
+export const drawUnderlay = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, settings: UnderlaySettings) => {
+    const { x, y, width, height } = getUnderlayRect(image.naturalWidth, image.naturalHeight, ctx.canvas.width, ctx.canvas.height, settings);
+    ctx.save();
+    ctx.globalAlpha = settings.opacity;
+    ctx.drawImage(image, x, y, width, height);
+    ctx.restore();
+};
@@ -0,0 +1,15 @@
+import { runTransaction } from "./database";
+import type { UsageRecord } from "./usageTracker";
+
+/** Returns every recorded request, oldest first. */
+export const listUsageRecords = (): Promise<UsageRecord[]> => (
+    runTransaction<UsageRecord[]>('usage', 'readonly', store => store.index('startedAt').getAll())
+);
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+    await runTransaction('usage', 'readwrite', store => store.put(record));
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+    await runTransaction('usage', 'readwrite', store => store.clear());
+};
@@ -0,0 +1,185 @@
+import { MODEL_NAME } from "./geminiRequest";
+import type { UsageReport } from "./imageProvider";
+
+/**
+ * Turns the usage reported by providers into priced records, totals and
+ * budget checks. Costs are estimates from configurable list prices, not what
+ * the account is actually billed.
+ */
+export interface UsageRecord extends UsageReport {
+    id: string;
+    /** USD, estimated with the pricing in effect when the request was made. */
+    cost: number;
+}
+
+export interface ModelPricing {
+    /** USD per million tokens. */
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    /** USD per generated image, for backends that charge per image rather than per token. */
+    perImage: number;
+}
+
+export type BudgetPeriod = 'session' | 'day' | 'month';
+
+export interface UsageSettings {
+    /** Keyed by model name; models without an entry use DEFAULT_PRICING. */
+    pricing: { [model: string]: ModelPricing };
+    /** USD per period; null for no budget. */
+    budget: number | null;
+    budgetPeriod: BudgetPeriod;
+    /** 'warn' asks before a run that would go over the budget; 'block' refuses it. */
+    budgetMode: 'warn' | 'block';
+}
+
+export interface UsageTotals {
+    requests: number;
+    failed: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    requestBytes: number;
+    cost: number;
+}
+
+const FREE: ModelPricing = { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+
+export const DEFAULT_PRICING: { [model: string]: ModelPricing } = {
+    // List prices at the time of writing; generated images count as output tokens.
+    [MODEL_NAME]: { inputPerMillionTokens: 0.30, outputPerMillionTokens: 30, perImage: 0 },
+    'mock-image-v1': FREE,
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    pricing: {},
+    budget: null,
+    budgetPeriod: 'day',
+    budgetMode: 'warn',
+};
+
+export const BUDGET_PERIOD_LABELS: { [period in BudgetPeriod]: string } = {
+    session: 'this session',
+    day: 'today',
+    month: 'this month',
+};
+
+// Roughly what one generated image and a typical prompt with a sketch come to.
+const IMAGE_OUTPUT_TOKENS = 1290;
+const TYPICAL_INPUT_TOKENS = 1500;
+// Estimates use the average of this many recent requests.
+const ESTIMATE_SAMPLE = 20;
+
+const STORAGE_KEY = 'pose-painter:usage-settings';
+
+export const loadUsageSettings = (): UsageSettings => {
+    let saved: Partial<UsageSettings> = {};
+    try {
+        saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+        // Ignore corrupt settings and fall back to defaults.
+    }
+    return {
+        pricing: saved.pricing ?? {},
+        budget: typeof saved.budget === 'number' && saved.budget > 0 ? saved.budget : null,
+        budgetPeriod: saved.budgetPeriod && saved.budgetPeriod in BUDGET_PERIOD_LABELS ? saved.budgetPeriod : DEFAULT_USAGE_SETTINGS.budgetPeriod,
+        budgetMode: saved.budgetMode === 'block' ? 'block' : 'warn',
+    };
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getPricing = (settings: UsageSettings, model: string): ModelPricing => settings.pricing[model] ?? DEFAULT_PRICING[model] ?? FREE;
+
+export const createUsageRecord = (report: UsageReport, settings: UsageSettings): UsageRecord => {
+    const pricing = getPricing(settings, report.model);
+    const cost = (report.inputTokens ?? 0) / 1e6 * pricing.inputPerMillionTokens
+        + (report.outputTokens ?? 0) / 1e6 * pricing.outputPerMillionTokens
+        + report.outputImages * pricing.perImage;
+    return { ...report, id: crypto.randomUUID(), cost };
+};
+
+/** When the current budget period began, as a timestamp. Days and months follow the local calendar. */
+export const getPeriodStart = (period: BudgetPeriod, sessionStart: number, now = new Date()): number => {
+    if (period === 'session') return sessionStart;
+    if (period === 'day') return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+};
+
+export const summarizeUsage = (records: UsageRecord[], since = 0): UsageTotals => records
+    .filter(record => record.startedAt >= since)
+    .reduce((totals, record) => ({
+        requests: totals.requests + 1,
+        failed: totals.failed + (record.error ? 1 : 0),
+        inputTokens: totals.inputTokens + (record.inputTokens ?? 0),
+        outputTokens: totals.outputTokens + (record.outputTokens ?? 0),
+        images: totals.images + record.outputImages,
+        requestBytes: totals.requestBytes + record.requestBytes,
+        cost: totals.cost + record.cost,
+    }), { requests: 0, failed: 0, inputTokens: 0, outputTokens: 0, images: 0, requestBytes: 0, cost: 0 });
+
+/** The expected cost of one request: the average of recent successful ones, or a typical image request at list price. */
+export const estimateRequestCost = (records: UsageRecord[], settings: UsageSettings, model: string): number => {
+    const recent = records.filter(record => record.model === model && !record.error).slice(-ESTIMATE_SAMPLE);
+    if (recent.length > 0) return recent.reduce((total, record) => total + record.cost, 0) / recent.length;
+    const pricing = getPricing(settings, model);
+    return TYPICAL_INPUT_TOKENS / 1e6 * pricing.inputPerMillionTokens + IMAGE_OUTPUT_TOKENS / 1e6 * pricing.outputPerMillionTokens + pricing.perImage;
+};
+
+export const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+/**
+ * Returns why `requests` more requests would go over the budget, or null if
+ * they fit (or no budget is set).
+ */
+export const checkBudget = (records: UsageRecord[], settings: UsageSettings, sessionStart: number, model: string, requests: number): string | null => {
+    if (settings.budget === null) return null;
+    const spent = summarizeUsage(records, getPeriodStart(settings.budgetPeriod, sessionStart)).cost;
+    const planned = estimateRequestCost(records, settings, model) * requests;
+    if (spent + planned <= settings.budget) return null;
+    return `This would cost about ${formatCost(planned)}, and ${formatCost(spent)} of the ${formatCost(settings.budget)} budget for ${BUDGET_PERIOD_LABELS[settings.budgetPeriod]} is already used.`;
+};
+
+const CSV_COLUMNS: [string, (record: UsageRecord) => string | number | null][] = [
+    ['time', record => new Date(record.startedAt).toISOString()],
+    ['provider', record => record.providerId],
+    ['model', record => record.model],
+    ['action', record => record.action],
+    ['status', record => record.error ?? 'ok'],
+    ['input_tokens', record => record.inputTokens],
+    ['output_tokens', record => record.outputTokens],
+    ['input_images', record => record.inputImages],
+    ['output_images', record => record.outputImages],
+    ['request_bytes', record => record.requestBytes],
+    ['response_bytes', record => record.responseBytes],
+    ['latency_ms', record => record.latencyMs],
+    ['cost_usd', record => record.cost.toFixed(6)],
+];
+
+const escapeCsv = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per request, oldest first. Leave out the header to append to an existing file. */
+export const toUsageCsv = (records: UsageRecord[], header = true): string => [
+    ...(header ? [CSV_COLUMNS.map(([name]) => name).join(',')] : []),
+    ...records.map(record => CSV_COLUMNS.map(([, value]) => escapeCsv(value(record))).join(',')),
+].map(line => `${line}\n`).join('');
+
+/** "2026-10" for each month with requests, newest first. */
+export const getUsageMonths = (records: UsageRecord[]): string[] => {
+    const months = new Set(records.map(record => {
+        const date = new Date(record.startedAt);
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }));
+    return [...months].sort().reverse();
+};
+
+export const filterUsageByMonth = (records: UsageRecord[], month: string): UsageRecord[] => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const start = new Date(year, monthIndex - 1, 1).getTime();
+    const end = new Date(year, monthIndex, 1).getTime();
+    return records.filter(record => record.startedAt >= start && record.startedAt < end);
+};
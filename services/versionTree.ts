@@ -0,0 +1,63 @@
+export interface VersionNode {
+    id: string;
+    parentId: string | null;
+    image: string; // base64 data URL
+    instruction: string | null; // null for the original generation
+    /** What the model wrote alongside the image, if anything. */
+    text?: string;
+    createdAt: number;
+}
+
+export interface VersionTree {
+    /** The prompt that produced the root image; it opens every refinement conversation. */
+    rootPrompt: string;
+    rootId: string;
+    currentId: string;
+    nodes: { [id: string]: VersionNode };
+}
+
+export const createVersionTree = (image: string, rootPrompt: string, text?: string): VersionTree => {
+    const root: VersionNode = {
+        id: crypto.randomUUID(),
+        parentId: null,
+        image,
+        instruction: null,
+        text,
+        createdAt: Date.now(),
+    };
+    return { rootPrompt, rootId: root.id, currentId: root.id, nodes: { [root.id]: root } };
+};
+
+/** Adds a refined version as a child of `parentId` and makes it current. */
+export const addVersion = (tree: VersionTree, parentId: string, image: string, instruction: string, text?: string): VersionTree => {
+    const node: VersionNode = {
+        id: crypto.randomUUID(),
+        parentId,
+        image,
+        instruction,
+        text,
+        createdAt: Date.now(),
+    };
+    return { ...tree, currentId: node.id, nodes: { ...tree.nodes, [node.id]: node } };
+};
+
+export const selectVersion = (tree: VersionTree, id: string): VersionTree => (
+    tree.nodes[id] ? { ...tree, currentId: id } : tree
+);
+
+/** Returns the versions from the root down to `id`, inclusive. */
+export const getVersionPath = (tree: VersionTree, id: string): VersionNode[] => {
+    const path: VersionNode[] = [];
+    let node: VersionNode | undefined = tree.nodes[id];
+    while (node) {
+        path.unshift(node);
+        node = node.parentId ? tree.nodes[node.parentId] : undefined;
+    }
+    return path;
+};
+
+export const getChildVersions = (tree: VersionTree, id: string): VersionNode[] => (
+    Object.values(tree.nodes)
+        .filter(node => node.parentId === id)
+        .sort((a, b) => a.createdAt - b.createdAt)
+);
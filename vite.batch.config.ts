@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the batch runner for Node. Unlike the app build nothing is inlined:
+// the API key is read from the environment when the runner starts.
+export default defineConfig({
+    build: {
+      ssr: 'batch/cli.ts',
+      outDir: 'dist-ssr',
+      target: 'node20',
+      emptyOutDir: true,
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+      }
+    }
+});
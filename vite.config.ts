@@ -1,12 +1,25 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `--mode proxy` builds the app for the proxy server: requests go to /api.
+    const forProxy = mode === 'proxy';
+    // The key is only put in the code when opted into with VITE_EMBED_KEY=1,
+    // and only by the dev server, so a build never contains it.
+    const embedKey = env.VITE_EMBED_KEY === '1' && command === 'serve' && !forProxy;
+    const apiKey = embedKey ? env.GEMINI_API_KEY ?? '' : '';
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(forProxy ? '/api' : ''),
+      },
+      server: {
+        // For `npm run dev -- --mode proxy` next to `npm run proxy`.
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       resolve: {
         alias: {
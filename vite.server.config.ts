@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the proxy server for Node. The API key is read from the environment
+// when it starts and never reaches the browser.
+export default defineConfig({
+    build: {
+      ssr: 'server/proxy.ts',
+      outDir: 'dist-server',
+      target: 'node20',
+      emptyOutDir: true,
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+      }
+    }
+});